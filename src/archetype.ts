@@ -0,0 +1,123 @@
+import type Entity from './entity';
+
+/**
+ * Group of entities sharing the exact same set of component types
+ *
+ * @exports
+ * @class Archetype
+ */
+export default class Archetype {
+  /**
+   * Unique key of this archetype, built from its sorted component types
+   */
+  readonly key: string;
+
+  /**
+   * Sorted component types shared by all entities of this archetype
+   */
+  readonly types: number[];
+
+  /**
+   * Entities stored in this archetype
+   */
+  readonly entities: Entity[] = [];
+
+  /**
+   * Set of component types, used for fast lookups
+   */
+  private _types: Set<number>;
+
+  /**
+   * Index of each entity (id) in the entities array
+   */
+  private _indices: Record<number, number> = {};
+
+  /**
+   * Archetypes reached by adding or removing a component type from this archetype
+   */
+  private _edges: Map<number, Archetype> = new Map();
+
+  /**
+   * @param {number[]} types Component types of this archetype
+   */
+  constructor(types: number[]) {
+    this.types = [...types].sort((a, b) => a - b);
+    this.key = Archetype.getKey(this.types);
+    this._types = new Set(this.types);
+  }
+
+  /**
+   * Get the unique key of a set of component types
+   *
+   * @param {number[]} types Component types
+   * @returns {string}
+   */
+  static getKey(types: number[]): string {
+    return [...types].sort((a, b) => a - b).join(',');
+  }
+
+  /**
+   * Check if this archetype contains a specific component type
+   *
+   * @param {number} type Component type to check
+   * @returns {boolean}
+   */
+  public has(type: number): boolean {
+    return this._types.has(type);
+  }
+
+  /**
+   * Add an entity to this archetype
+   *
+   * @param {Entity} entity Entity to add
+   */
+  public add(entity: Entity): void {
+    if (this._indices.hasOwnProperty(entity.id)) {
+      return;
+    }
+
+    this._indices[entity.id] = this.entities.length;
+    this.entities.push(entity);
+  }
+
+  /**
+   * Remove an entity from this archetype
+   *
+   * @param {Entity} entity Entity to remove
+   */
+  public remove(entity: Entity): void {
+    if (!this._indices.hasOwnProperty(entity.id)) {
+      return;
+    }
+
+    // Swap with the last entity to avoid shifting the array
+    const index = this._indices[entity.id];
+    const last = this.entities.pop() as Entity;
+    if (last !== entity) {
+      this.entities[index] = last;
+      this._indices[last.id] = index;
+    }
+
+    delete this._indices[entity.id];
+  }
+
+  /**
+   * Get the cached archetype reached by toggling a component type
+   *
+   * @param {number} type Component type added or removed
+   * @returns {Archetype|undefined}
+   */
+  public getEdge(type: number): Archetype | undefined {
+    return this._edges.get(type);
+  }
+
+  /**
+   * Cache the archetype reached by toggling a component type
+   *
+   * @param {number} type Component type added or removed
+   * @param {Archetype} archetype Archetype reached
+   */
+  public setEdge(type: number, archetype: Archetype): void {
+    this._edges.set(type, archetype);
+  }
+}
@@ -0,0 +1,579 @@
+import { getSnapshot } from './checksum';
+import Component from './component';
+import type ComponentRegistry from './registry';
+import { create } from './schema';
+import World from './world';
+import type { NumberFormat, Schema, SchemaField, SchemaFieldType, WorldSnapshot } from './types';
+
+/**
+ * Version of the binary format, increased on incompatible changes
+ */
+const FORMAT_VERSION = 1;
+
+/**
+ * Bytes identifying the binary format
+ */
+const MAGIC = [0x45, 0x43, 0x53, 0x42]; // ECSB
+
+/**
+ * Codes of the schema field types
+ */
+const TYPES: SchemaFieldType[] = ['number', 'string', 'boolean', 'vector2', 'vector3', 'vector4', 'entity', 'array'];
+
+/**
+ * Code of the values without field description, encoded as JSON
+ */
+const JSON_TYPE = 0xff;
+
+/**
+ * Codes of the number formats
+ */
+const FORMATS: NumberFormat[] = ['int8', 'uint8', 'int16', 'uint16', 'int32', 'uint32', 'float32', 'float64'];
+
+/**
+ * Sizes of the number formats, in bytes
+ */
+const FORMAT_SIZES: Record<NumberFormat, number> = {
+  int8: 1,
+  uint8: 1,
+  int16: 2,
+  uint16: 2,
+  int32: 4,
+  uint32: 4,
+  float32: 4,
+  float64: 8
+};
+
+/**
+ * Sizes of vector field types
+ */
+const VECTOR_SIZES: Partial<Record<SchemaFieldType, number>> = {
+  vector2: 2,
+  vector3: 3,
+  vector4: 4
+};
+
+/**
+ * Layout of the data of a component class, as encoded
+ */
+type Layout = {
+  name: string;
+  version: number;
+  schema?: Schema;
+};
+
+/**
+ * Growable buffer of bytes, written sequentially in little-endian order
+ */
+class Writer {
+  /**
+   * Bytes written
+   */
+  private _bytes: Uint8Array = new Uint8Array(1024);
+
+  /**
+   * View of the bytes written
+   */
+  private _view: DataView = new DataView(this._bytes.buffer);
+
+  /**
+   * Number of bytes written
+   */
+  private _offset: number = 0;
+
+  /**
+   * Text encoder of strings, in UTF-8
+   */
+  private _encoder: TextEncoder = new TextEncoder();
+
+  /**
+   * Get the bytes written
+   *
+   * @returns {Uint8Array}
+   */
+  public finish(): Uint8Array {
+    return this._bytes.slice(0, this._offset);
+  }
+
+  /**
+   * Write raw bytes
+   *
+   * @param {ArrayLike<number>} bytes Bytes to write
+   */
+  public bytes(bytes: ArrayLike<number>): void {
+    this._reserve(bytes.length);
+    this._bytes.set(bytes, this._offset);
+    this._offset += bytes.length;
+  }
+
+  /**
+   * Write a number in a specific format
+   *
+   * @param {number} value Number to write
+   * @param {NumberFormat} [format='float64'] Number format
+   */
+  public number(value: number, format: NumberFormat = 'float64'): void {
+    this._reserve(FORMAT_SIZES[format]);
+
+    switch (format) {
+      case 'int8':
+        this._view.setInt8(this._offset, value);
+        break;
+      case 'uint8':
+        this._view.setUint8(this._offset, value);
+        break;
+      case 'int16':
+        this._view.setInt16(this._offset, value, true);
+        break;
+      case 'uint16':
+        this._view.setUint16(this._offset, value, true);
+        break;
+      case 'int32':
+        this._view.setInt32(this._offset, value, true);
+        break;
+      case 'uint32':
+        this._view.setUint32(this._offset, value, true);
+        break;
+      case 'float32':
+        this._view.setFloat32(this._offset, value, true);
+        break;
+      case 'float64':
+        this._view.setFloat64(this._offset, value, true);
+        break;
+    }
+
+    this._offset += FORMAT_SIZES[format];
+  }
+
+  /**
+   * Write a positive integer in a variable number of bytes (LEB128)
+   *
+   * @param {number} value Integer to write
+   */
+  public varuint(value: number): void {
+    do {
+      const byte = value % 128;
+      value = Math.floor(value / 128);
+      this.number(value > 0 ? byte + 128 : byte, 'uint8');
+    } while (value > 0);
+  }
+
+  /**
+   * Write a string, in UTF-8 prefixed by its byte length
+   *
+   * @param {string} value String to write
+   */
+  public string(value: string): void {
+    const bytes = this._encoder.encode(value);
+    this.varuint(bytes.length);
+    this.bytes(bytes);
+  }
+
+  /**
+   * Grow the buffer so that a number of bytes can be written
+   *
+   * @param {number} size Number of bytes to write
+   */
+  private _reserve(size: number): void {
+    if (this._offset + size <= this._bytes.length) {
+      return;
+    }
+
+    const bytes = new Uint8Array(Math.max(this._bytes.length * 2, this._offset + size));
+    bytes.set(this._bytes);
+    this._bytes = bytes;
+    this._view = new DataView(bytes.buffer);
+  }
+}
+
+/**
+ * Reader of bytes written by a `Writer`
+ */
+class Reader {
+  /**
+   * View of the bytes read
+   */
+  private _view: DataView;
+
+  /**
+   * Number of bytes read
+   */
+  private _offset: number = 0;
+
+  /**
+   * Text decoder of strings, in UTF-8
+   */
+  private _decoder: TextDecoder = new TextDecoder();
+
+  /**
+   * @param {Uint8Array} bytes Bytes to read
+   */
+  constructor(bytes: Uint8Array) {
+    this._view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  /**
+   * Read raw bytes
+   *
+   * @param {number} length Number of bytes to read
+   * @returns {Uint8Array}
+   */
+  public bytes(length: number): Uint8Array {
+    this._check(length);
+    const bytes = new Uint8Array(this._view.buffer, this._view.byteOffset + this._offset, length);
+    this._offset += length;
+    return bytes;
+  }
+
+  /**
+   * Read a number in a specific format
+   *
+   * @param {NumberFormat} [format='float64'] Number format
+   * @returns {number}
+   */
+  public number(format: NumberFormat = 'float64'): number {
+    this._check(FORMAT_SIZES[format]);
+
+    let value: number;
+    switch (format) {
+      case 'int8':
+        value = this._view.getInt8(this._offset);
+        break;
+      case 'uint8':
+        value = this._view.getUint8(this._offset);
+        break;
+      case 'int16':
+        value = this._view.getInt16(this._offset, true);
+        break;
+      case 'uint16':
+        value = this._view.getUint16(this._offset, true);
+        break;
+      case 'int32':
+        value = this._view.getInt32(this._offset, true);
+        break;
+      case 'uint32':
+        value = this._view.getUint32(this._offset, true);
+        break;
+      case 'float32':
+        value = this._view.getFloat32(this._offset, true);
+        break;
+      case 'float64':
+        value = this._view.getFloat64(this._offset, true);
+        break;
+    }
+
+    this._offset += FORMAT_SIZES[format];
+    return value;
+  }
+
+  /**
+   * Read a positive integer written in a variable number of bytes (LEB128)
+   *
+   * @returns {number}
+   */
+  public varuint(): number {
+    let value = 0;
+    let factor = 1;
+    let byte: number;
+
+    do {
+      byte = this.number('uint8');
+      value += (byte % 128) * factor;
+      factor *= 128;
+    } while (byte >= 128);
+
+    return value;
+  }
+
+  /**
+   * Read a string, in UTF-8 prefixed by its byte length
+   *
+   * @returns {string}
+   */
+  public string(): string {
+    return this._decoder.decode(this.bytes(this.varuint()));
+  }
+
+  /**
+   * Check that a number of bytes can be read
+   *
+   * @param {number} size Number of bytes to read
+   */
+  private _check(size: number): void {
+    if (this._offset + size > this._view.byteLength) {
+      throw new Error('decodeSnapshot(): Unexpected end of data');
+    }
+  }
+}
+
+/**
+ * Write the description of a schema field
+ *
+ * @param {Writer} writer Writer
+ * @param {SchemaField} [field] Schema field, values without description are encoded as JSON
+ */
+function writeField(writer: Writer, field?: SchemaField): void {
+  if (!field) {
+    writer.number(JSON_TYPE, 'uint8');
+    return;
+  }
+
+  writer.number(TYPES.indexOf(field.type), 'uint8');
+  writer.number(FORMATS.indexOf(field.format ?? 'float64'), 'uint8');
+
+  if (field.type === 'array') {
+    writeField(writer, field.items);
+  }
+}
+
+/**
+ * Read the description of a schema field
+ *
+ * @param {Reader} reader Reader
+ * @returns {SchemaField|undefined}
+ */
+function readField(reader: Reader): SchemaField | undefined {
+  const code = reader.number('uint8');
+  if (code === JSON_TYPE) {
+    return;
+  }
+
+  const type = TYPES[code];
+  const format = FORMATS[reader.number('uint8')];
+  if (!type || !format) {
+    throw new Error(`decodeSnapshot(): Unknown field type ${code}`);
+  }
+
+  return { type, format, items: type === 'array' ? readField(reader) : undefined };
+}
+
+/**
+ * Write a value described by a schema field
+ *
+ * @param {Writer} writer Writer
+ * @param {SchemaField|undefined} field Schema field, values without description are encoded as JSON
+ * @param {unknown} value Value to write
+ */
+function writeValue(writer: Writer, field: SchemaField | undefined, value: unknown): void {
+  switch (field?.type) {
+    case 'number':
+      writer.number(typeof value === 'number' ? value : 0, field.format);
+      break;
+    case 'string':
+      writer.string(typeof value === 'string' ? value : '');
+      break;
+    case 'boolean':
+      writer.number(value ? 1 : 0, 'uint8');
+      break;
+    case 'vector2':
+    case 'vector3':
+    case 'vector4':
+      for (let i = 0; i < VECTOR_SIZES[field.type]!; i++) {
+        writer.number((value as ArrayLike<number> | undefined)?.[i] ?? 0, field.format);
+      }
+      break;
+    case 'entity':
+      // 0 encodes a null reference
+      writer.varuint(typeof value === 'number' ? value + 1 : 0);
+      break;
+    case 'array': {
+      const items = Array.isArray(value) ? value : [];
+      writer.varuint(items.length);
+      items.forEach((item) => writeValue(writer, field.items, item));
+      break;
+    }
+    default:
+      writer.string(JSON.stringify(value) ?? '');
+  }
+}
+
+/**
+ * Read a value described by a schema field
+ *
+ * @param {Reader} reader Reader
+ * @param {SchemaField|undefined} field Schema field, values without description are decoded from JSON
+ * @returns {unknown}
+ */
+function readValue(reader: Reader, field: SchemaField | undefined): unknown {
+  switch (field?.type) {
+    case 'number':
+      return reader.number(field.format);
+    case 'string':
+      return reader.string();
+    case 'boolean':
+      return reader.number('uint8') === 1;
+    case 'vector2':
+    case 'vector3':
+    case 'vector4':
+      return Array.from({ length: VECTOR_SIZES[field.type]! }, () => reader.number(field.format));
+    case 'entity': {
+      const value = reader.varuint();
+      return value > 0 ? value - 1 : null;
+    }
+    case 'array':
+      return Array.from({ length: reader.varuint() }, () => readValue(reader, field.items));
+    default: {
+      const json = reader.string();
+      return json ? JSON.parse(json) : undefined;
+    }
+  }
+}
+
+/**
+ * Encode a world, or a snapshot, in a compact binary format
+ * The data of components registered with a schema are encoded field by field, using the number format of each field
+ * (`float64` by default), other data are encoded as JSON
+ * The layout of each component class is saved along with the data, so that data can be decoded after fields have been
+ * added to or removed from the schema of a component class
+ *
+ * @param {World|WorldSnapshot} source World or snapshot to encode
+ * @param {ComponentRegistry} [registry] Registry mapping names to component classes
+ * @returns {Uint8Array}
+ */
+export function encodeSnapshot(source: World | WorldSnapshot, registry?: ComponentRegistry): Uint8Array {
+  registry = registry ?? (source instanceof World ? source.universe.registry : Component.registry);
+  const snapshot = getSnapshot(source, registry);
+  const writer = new Writer();
+
+  writer.bytes(MAGIC);
+  writer.number(FORMAT_VERSION, 'uint8');
+  writer.string(snapshot.id);
+  writer.string(snapshot.state);
+  writer.number(snapshot.time);
+
+  // Layouts
+  const layouts: Layout[] = [];
+  const indexes: Map<string, number> = new Map();
+  snapshot.entities.forEach(({ components }) => {
+    components.forEach(({ name }) => {
+      if (!indexes.has(name)) {
+        indexes.set(name, layouts.length);
+        const ComponentClass = registry!.get(name);
+        layouts.push({ name, version: ComponentClass?.version ?? 0, schema: ComponentClass?.schema });
+      }
+    });
+  });
+
+  writer.varuint(layouts.length);
+  layouts.forEach(({ name, version, schema }) => {
+    writer.string(name);
+    writer.varuint(version);
+    writer.number(schema ? 1 : 0, 'uint8');
+    if (schema) {
+      writer.varuint(Object.keys(schema).length);
+      Object.entries(schema).forEach(([key, field]) => {
+        writer.string(key);
+        writeField(writer, field);
+      });
+    }
+  });
+
+  // Entities
+  writer.varuint(snapshot.entities.length);
+  snapshot.entities.forEach(({ id, generation, active, components }) => {
+    writer.varuint(id);
+    writer.varuint(generation ?? 0);
+    writer.number(active ? 1 : 0, 'uint8');
+    writer.varuint(components.length);
+
+    components.forEach(({ name, data, attributes }) => {
+      const { schema } = layouts[indexes.get(name)!];
+      writer.varuint(indexes.get(name)!);
+
+      if (schema) {
+        Object.entries(schema).forEach(([key, field]) => {
+          writeValue(writer, field, (data as Record<string, unknown>)?.[key]);
+        });
+      } else {
+        writeValue(writer, undefined, data);
+      }
+
+      writeValue(writer, undefined, attributes);
+    });
+  });
+
+  return writer.finish();
+}
+
+/**
+ * Decode a snapshot encoded by `encodeSnapshot()`
+ * Fields added to the schema of a component class since the snapshot was encoded get their default value, fields
+ * removed or whose type changed are dropped, unless the version of the component class changed: data are then decoded
+ * as saved, to be migrated when the snapshot is restored
+ *
+ * @param {Uint8Array} bytes Encoded snapshot
+ * @param {ComponentRegistry} [registry=Component.registry] Registry mapping names to component classes
+ * @returns {WorldSnapshot}
+ */
+export function decodeSnapshot(bytes: Uint8Array, registry: ComponentRegistry = Component.registry): WorldSnapshot {
+  const reader = new Reader(bytes);
+
+  if (!MAGIC.every((byte, index) => bytes[index] === byte)) {
+    throw new Error('decodeSnapshot(): Data is not an encoded snapshot');
+  }
+  reader.bytes(MAGIC.length);
+
+  const format = reader.number('uint8');
+  if (format !== FORMAT_VERSION) {
+    throw new Error(`decodeSnapshot(): Format version ${format} is not supported`);
+  }
+
+  const id = reader.string();
+  const state = reader.string();
+  const time = reader.number();
+
+  // Layouts
+  const layouts: Layout[] = Array.from({ length: reader.varuint() }, () => {
+    const name = reader.string();
+    const version = reader.varuint();
+    if (reader.number('uint8') === 0) {
+      return { name, version };
+    }
+
+    const schema: Schema = {};
+    for (let i = reader.varuint(); i > 0; i--) {
+      const key = reader.string();
+      schema[key] = readField(reader)!;
+    }
+    return { name, version, schema };
+  });
+
+  // Entities
+  const entities = Array.from({ length: reader.varuint() }, () => {
+    const id = reader.varuint();
+    const generation = reader.varuint();
+    const active = reader.number('uint8') === 1;
+
+    const components = Array.from({ length: reader.varuint() }, () => {
+      const layout = layouts[reader.varuint()];
+      if (!layout) {
+        throw new Error('decodeSnapshot(): Unknown component layout');
+      }
+
+      let data: unknown;
+      if (layout.schema) {
+        // Data of other versions are left to the migrations of the component class
+        const ComponentClass = registry.get(layout.name);
+        const schema = ComponentClass?.version === layout.version ? ComponentClass.schema : undefined;
+        const values: Record<string, unknown> = {};
+
+        Object.entries(layout.schema).forEach(([key, field]) => {
+          const value = readValue(reader, field);
+          if (!schema || schema[key]?.type === field.type) {
+            values[key] = value;
+          }
+        });
+
+        data = schema ? create(schema, values) : values;
+      } else {
+        data = readValue(reader, undefined);
+      }
+
+      return { name: layout.name, version: layout.version, data, attributes: readValue(reader, undefined) ?? {} };
+    });
+
+    return { id, generation, active, components };
+  });
+
+  return { id, state, time, entities };
+}
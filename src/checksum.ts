@@ -0,0 +1,86 @@
+import type ComponentRegistry from './registry';
+import World from './world';
+import type { WorldSnapshot } from './types';
+
+/**
+ * Convert a value to a JSON string with sorted object keys, so that equal values produce equal strings
+ *
+ * @param {unknown} value Value to convert
+ * @returns {string}
+ */
+function stringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stringify(item ?? null)).join(',')}]`;
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value)
+      .filter((key) => typeof (value as Record<string, unknown>)[key] !== 'undefined')
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Get the snapshot of a world, or a snapshot as is
+ * Components without name are identified by their numeric type, so that worlds holding them can still be compared
+ *
+ * @param {World|WorldSnapshot} source World or snapshot
+ * @param {ComponentRegistry} [registry] Registry mapping component classes to names, used to describe worlds
+ * @returns {WorldSnapshot}
+ */
+export function getSnapshot(source: World | WorldSnapshot, registry?: ComponentRegistry): WorldSnapshot {
+  if (!(source instanceof World)) {
+    return source;
+  }
+
+  const names = registry ?? source.universe.registry;
+  const { id, state, time, entities } = source.inspect();
+
+  return {
+    id,
+    state,
+    time,
+    entities: entities.map(({ id, generation, active, components }) => ({
+      id,
+      generation,
+      active,
+      components: components.map(({ type, data, attributes }) => ({
+        name: names.getName(type) ?? String(type),
+        data,
+        attributes
+      }))
+    }))
+  };
+}
+
+/**
+ * Compute a stable hash of the entities of a world or snapshot, their component types and component data
+ * Entities are hashed in id order and components in name order, so that insertion order does not matter
+ *
+ * @param {World|WorldSnapshot} source World or snapshot to hash
+ * @param {ComponentRegistry} [registry] Registry mapping component classes to names, used to describe worlds
+ * @returns {string} 32-bit FNV-1a hash, as an hexadecimal string
+ */
+export function checksum(source: World | WorldSnapshot, registry?: ComponentRegistry): string {
+  const entities = [...getSnapshot(source, registry).entities]
+    .sort((a, b) => a.id - b.id)
+    .map(({ id, components }) => ({
+      id,
+      components: [...components]
+        .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+        .map(({ name, data }) => ({ name, data }))
+    }));
+  const string = stringify(entities);
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < string.length; i++) {
+    hash ^= string.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,313 @@
+import type Component from './component';
+import type { ComponentClassType } from './component';
+import Entity from './entity';
+import type ComponentRegistry from './registry';
+import { equals, isPlainObject } from './schema';
+import type World from './world';
+import type { ReplicationMessage, ReplicationState, SchemaField, Transport } from './types';
+
+/**
+ * Client applying the delta snapshots of a replication server to a world
+ * Server entities are mapped to local entities, created and removed as the server entities are
+ *
+ * @exports
+ * @class ReplicationClient
+ */
+export default class ReplicationClient {
+  /**
+   * World the snapshots are applied to
+   */
+  readonly world: World;
+
+  /**
+   * Transport receiving snapshots from the server and sending acknowledgements
+   */
+  readonly transport: Transport;
+
+  /**
+   * Peer id of the server
+   */
+  readonly server: string;
+
+  /**
+   * Registry mapping names to component classes
+   */
+  readonly registry: ComponentRegistry;
+
+  /**
+   * Tick of the last snapshot applied
+   */
+  private _tick: number = 0;
+
+  /**
+   * Replication states of the snapshots received, by tick, kept while they may be used as baseline
+   */
+  private _states: Map<number, ReplicationState> = new Map([[0, new Map()]]);
+
+  /**
+   * Local entities, by server entity handle
+   */
+  private _entities: Map<number, Entity> = new Map();
+
+  /**
+   * Local entities, by server entity id
+   */
+  private _ids: Map<number, Entity> = new Map();
+
+  /**
+   * Server entity handles, by local entity
+   */
+  private _handles: Map<Entity, number> = new Map();
+
+  /**
+   * Names of the component classes referencing entities which are not replicated yet, by local entity
+   */
+  private _unresolved: Map<Entity, Set<string>> = new Map();
+
+  /**
+   * Unsubscribe function of the transport subscription
+   */
+  private _unsubscribe: () => void;
+
+  /**
+   * @param {World} world World to apply the snapshots to
+   * @param {Transport} transport Transport receiving snapshots from the server and sending acknowledgements
+   * @param {string} server Peer id of the server
+   * @param {ComponentRegistry} [registry=world.universe.registry] Registry mapping names to component classes
+   */
+  constructor(
+    world: World,
+    transport: Transport,
+    server: string,
+    registry: ComponentRegistry = world.universe.registry
+  ) {
+    this.world = world;
+    this.transport = transport;
+    this.server = server;
+    this.registry = registry;
+
+    this._unsubscribe = transport.onMessage((peer, message) => this.receive(peer, message));
+  }
+
+  /**
+   * Tick of the last snapshot applied
+   */
+  get tick(): number {
+    return this._tick;
+  }
+
+  /**
+   * Get the local entity of a server entity
+   *
+   * @param {number} id Server entity id
+   * @returns {Entity|undefined}
+   */
+  public getEntity(id: number): Entity | undefined {
+    return this._ids.get(id);
+  }
+
+  /**
+   * Get the server entity id of a local entity
+   *
+   * @param {Entity} entity Local entity
+   * @returns {number|undefined}
+   */
+  public getServerId(entity: Entity): number | undefined {
+    const handle = this._handles.get(entity);
+    return typeof handle === 'number' ? Entity.getId(handle) : undefined;
+  }
+
+  /**
+   * Handle a message received from the server: apply the snapshot and acknowledge it
+   * Snapshots older than the last applied one, or based on an unknown snapshot, are ignored
+   *
+   * @param {string} peer Peer id of the sender
+   * @param {ReplicationMessage} message Received message
+   */
+  public receive(peer: string, message: ReplicationMessage): void {
+    if (peer !== this.server || message.type !== 'snapshot' || message.tick <= this._tick) {
+      return;
+    }
+
+    const baseline = this._states.get(message.baseline);
+    if (!baseline) {
+      return;
+    }
+
+    // Rebuild the server state from the baseline and the delta
+    const state: ReplicationState = new Map(baseline);
+    message.entities.forEach(({ handle, components }) => {
+      const merged = { ...(state.get(handle) ?? {}), ...components };
+      Object.keys(merged).forEach((name) => {
+        if (merged[name].length < 1) {
+          delete merged[name];
+        }
+      });
+      state.set(handle, merged);
+    });
+    message.removed.forEach((handle) => state.delete(handle));
+
+    this._apply(this._states.get(this._tick)!, state);
+
+    // The server never uses baselines older than the ones it already used
+    this._states.set(message.tick, state);
+    this._states.forEach((_, tick) => {
+      if (tick < message.baseline) {
+        this._states.delete(tick);
+      }
+    });
+    this._tick = message.tick;
+
+    this.transport.send(this.server, { type: 'ack', tick: message.tick });
+  }
+
+  /**
+   * Stop receiving messages from the server
+   * Local entities are kept in the world
+   */
+  public destroy(): void {
+    this._unsubscribe();
+  }
+
+  /**
+   * Apply the changes between two replication states to the world
+   *
+   * @param {ReplicationState} previous Replication state applied to the world
+   * @param {ReplicationState} state Replication state to apply
+   */
+  private _apply(previous: ReplicationState, state: ReplicationState): void {
+    // Remove entities
+    previous.forEach((_, handle) => {
+      const entity = this._entities.get(handle);
+      if (!state.has(handle) && entity) {
+        this._entities.delete(handle);
+        this._handles.delete(entity);
+        this._unresolved.delete(entity);
+        if (this._ids.get(Entity.getId(handle)) === entity) {
+          this._ids.delete(Entity.getId(handle));
+        }
+        this.world.removeEntity(entity);
+      }
+    });
+
+    // Create entities first, so that entity references can be mapped
+    const created: Entity[] = [];
+    state.forEach((_, handle) => {
+      if (!this._entities.has(handle)) {
+        const entity = this.world.acquireEntity();
+        this._entities.set(handle, entity);
+        this._ids.set(Entity.getId(handle), entity);
+        this._handles.set(entity, handle);
+        created.push(entity);
+      }
+    });
+
+    // Update components
+    state.forEach((components, handle) => {
+      const entity = this._entities.get(handle)!;
+      const previousComponents = previous.get(handle) ?? {};
+
+      new Set([...Object.keys(previousComponents), ...Object.keys(components)]).forEach((name) => {
+        if (!equals(previousComponents[name], components[name])) {
+          this._update(entity, name, components[name] ?? []);
+        }
+      });
+    });
+
+    // Resolve the references to the entities created
+    if (created.length > 0) {
+      [...this._unresolved].forEach(([entity, names]) => {
+        const components = state.get(this._handles.get(entity)!) ?? {};
+        [...names].forEach((name) => this._update(entity, name, components[name] ?? []));
+      });
+    }
+
+    created.forEach((entity) => this.world.addEntity(entity));
+  }
+
+  /**
+   * Update the components of an entity with the data of a component class
+   * Components referencing entities which are not replicated yet are updated again once they are
+   *
+   * @param {Entity} entity Local entity
+   * @param {string} name Name of the component class
+   * @param {unknown[]} list Data of each component
+   */
+  private _update(entity: Entity, name: string, list: unknown[]): void {
+    const ComponentClass = this.registry.get(name);
+    if (!ComponentClass) {
+      throw new Error(`ReplicationClient.receive(): Component "${name}" is not registered`);
+    }
+
+    const components: Component[] = [...(entity.components[ComponentClass.type] ?? [])];
+    components.slice(list.length).forEach((component) => entity.remove(component));
+
+    let unresolved = false;
+    list.forEach((serverData, index) => {
+      const data = this._mapData(ComponentClass, structuredClone(serverData), () => (unresolved = true));
+      const component = components[index];
+
+      if (ComponentClass.relation && data === null) {
+        if (component) {
+          entity.remove(component);
+        }
+      } else if (!component) {
+        entity.add(new ComponentClass(data));
+      } else {
+        if (isPlainObject(component.data) && isPlainObject(data)) {
+          Object.assign(component.data, data);
+        } else {
+          component.data = data;
+        }
+        component.markChanged();
+      }
+    });
+
+    const names = this._unresolved.get(entity) ?? new Set();
+    if (unresolved) {
+      names.add(name);
+      this._unresolved.set(entity, names);
+    } else if (names.delete(name) && names.size < 1) {
+      this._unresolved.delete(entity);
+    }
+  }
+
+  /**
+   * Map the server entity ids referenced by component data to local entity ids
+   * References to entities which are not replicated are set to null
+   *
+   * @param {ComponentClassType} ComponentClass Component class
+   * @param {unknown} data Component data
+   * @param {Function} onUnresolved Function called when a referenced entity is not replicated
+   * @returns {unknown}
+   */
+  private _mapData(ComponentClass: ComponentClassType<any>, data: unknown, onUnresolved: () => void): unknown {
+    const map = (id: unknown) => {
+      if (typeof id !== 'number') {
+        return id;
+      }
+
+      const entity = this._ids.get(id);
+      if (!entity) {
+        onUnresolved();
+      }
+      return entity?.id ?? null;
+    };
+
+    if (ComponentClass.relation) {
+      return map(data);
+    }
+
+    if (ComponentClass.schema && isPlainObject(data)) {
+      Object.entries(ComponentClass.schema).forEach(([key, field]: [string, SchemaField]) => {
+        if (field.type === 'entity') {
+          data[key] = map(data[key]);
+        } else if (field.type === 'array' && field.items?.type === 'entity' && Array.isArray(data[key])) {
+          data[key] = (data[key] as unknown[]).map(map);
+        }
+      });
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,130 @@
+import type Component from './component';
+import type Entity from './entity';
+import type World from './world';
+import type { Command } from './types';
+
+/**
+ * Queue of structural changes (entity creation and removal, component addition and removal) applied later to a world
+ * Allow systems to alter entities while the world is iterating them, commands being applied at well-defined sync points
+ *
+ * @exports
+ * @class CommandBuffer
+ */
+export default class CommandBuffer {
+  /**
+   * World the commands are applied to
+   */
+  readonly world: World;
+
+  /**
+   * Commands queued, in recording order
+   */
+  private _commands: Command[] = [];
+
+  /**
+   * @param {World} world World the commands are applied to
+   */
+  constructor(world: World) {
+    this.world = world;
+  }
+
+  /**
+   * Number of commands queued
+   */
+  get size(): number {
+    return this._commands.length;
+  }
+
+  /**
+   * Queue the creation of an entity
+   * The returned entity is not added to the world until the buffer is flushed, but can already be referenced by other
+   * commands
+   *
+   * @param {Component[]} [components=[]] Components to add to the entity
+   * @param {Entity} [entity] Entity to add, acquired from the world if not provided
+   * @returns {Entity}
+   */
+  public createEntity(components: Component[] = [], entity: Entity = this.world.acquireEntity()): Entity {
+    this._commands.push({ type: 'createEntity', entity, components });
+    return entity;
+  }
+
+  /**
+   * Queue the removal of an entity
+   *
+   * @param {Entity} entity Entity to remove
+   */
+  public removeEntity(entity: Entity): void {
+    this._commands.push({ type: 'removeEntity', entity });
+  }
+
+  /**
+   * Queue the addition of a component to an entity
+   *
+   * @param {Entity} entity Entity to add the component to
+   * @param {Component} component Component to add
+   */
+  public add(entity: Entity, component: Component): void {
+    this._commands.push({ type: 'add', entity, component });
+  }
+
+  /**
+   * Queue the removal of a component from an entity
+   *
+   * @param {Entity} entity Entity to remove the component from
+   * @param {Component} component Component to remove
+   */
+  public remove(entity: Entity, component: Component): void {
+    this._commands.push({ type: 'remove', entity, component });
+  }
+
+  /**
+   * Apply all queued commands, in recording order
+   * Commands queued while flushing (e.g. by `enter` or `exit` callbacks) are applied by the same flush
+   * Commands targeting an entity which has been removed are ignored
+   *
+   * @returns {number} Number of commands applied
+   */
+  public flush(): number {
+    const removed = new Set<Entity>();
+
+    let count = 0;
+    while (count < this._commands.length) {
+      const command = this._commands[count++];
+
+      switch (command.type) {
+        case 'createEntity':
+          removed.delete(command.entity);
+          command.components.forEach((component) => command.entity.add(component));
+          this.world.addEntity(command.entity);
+          break;
+        case 'removeEntity':
+          if (!removed.has(command.entity)) {
+            removed.add(command.entity);
+            this.world.removeEntity(command.entity);
+          }
+          break;
+        case 'add':
+          if (!removed.has(command.entity)) {
+            command.entity.add(command.component);
+          }
+          break;
+        case 'remove':
+          if (!removed.has(command.entity)) {
+            command.entity.remove(command.component);
+          }
+          break;
+      }
+    }
+
+    this._commands = [];
+    return count;
+  }
+
+  /**
+   * Discard all queued commands
+   */
+  public clear(): void {
+    this._commands = [];
+  }
+}
@@ -1,11 +1,68 @@
 import type Entity from './entity';
 
-type ComponentClassType<P> = (new (data: P) => Component<P>) & {
+import type ComponentRegistry from './registry';
+import { clone, create, equals, isPlainObject, validate } from './schema';
+import Pool from './pool';
+import ComponentStorage from './storage';
+import Universe from './universe';
+import type { ComponentMigration, ComponentOptions, RelationOptions, Schema } from './types';
+
+export type ComponentClassType<P, A extends any[] = [data: P]> = (new (...args: A) => Component<P>) & {
   /**
    * Unique reference to this component type id
    */
   readonly type: number;
 
+  /**
+   * Schema describing the data fields of this component, if any
+   */
+  readonly schema?: Schema;
+
+  /**
+   * Typed array storage of this component data, if registered with the `soa` storage kind
+   */
+  readonly storage?: ComponentStorage;
+
+  /**
+   * Relation options of this component, if registered as a relation to a target entity
+   */
+  readonly relation?: RelationOptions;
+
+  /**
+   * Pool of released instances of this component, if registered with a pool size
+   */
+  readonly pool?: Pool<Component<P>>;
+
+  /**
+   * Flag indicating if this component is replicated over the network
+   */
+  readonly replicated?: boolean;
+
+  /**
+   * Version of the data shape of this component
+   */
+  readonly version: number;
+
+  /**
+   * Functions upgrading data to a version of this component, by version
+   */
+  readonly migrations: Record<number, ComponentMigration>;
+
+  /**
+   * Create an instance of this component, reusing a released instance if available
+   *
+   * @param {A} args Arguments of the component constructor
+   * @returns {Component}
+   */
+  acquire(...args: A): Component<P>;
+
+  /**
+   * Return an instance of this component to its pool
+   *
+   * @param {Component} component Component to release
+   */
+  release(component: Component<P>): void;
+
   /**
    * Return all instances of this component from entity
    *
@@ -21,8 +78,46 @@ type ComponentClassType<P> = (new (data: P) => Component<P>) & {
    * @returns {Component}
    */
   oneFrom(entity: Entity): Component<P>;
+
+  /**
+   * Upgrade data of an older version of this component to the current version
+   *
+   * @param {unknown} data Data to upgrade
+   * @param {number} version Version of the data
+   * @returns {P}
+   */
+  migrate(data: unknown, version: number): P;
 };
 
+/**
+ * Data wrapped by the proxies of tracked components, by proxy
+ */
+const trackedData: WeakMap<object, object> = new WeakMap();
+
+/**
+ * Replace the proxies of tracked components held by a value with the data they wrap, so that tracked data stay plain
+ *
+ * @param {unknown} value Value to unwrap
+ * @param {Set} [seen] Objects already unwrapped
+ * @returns {unknown}
+ */
+function untrack(value: unknown, seen: Set<unknown> = new Set()): unknown {
+  const data = typeof value === 'object' && value !== null ? (trackedData.get(value) ?? value) : value;
+
+  if ((Array.isArray(data) || isPlainObject(data)) && !seen.has(data)) {
+    seen.add(data);
+    Object.keys(data).forEach((key) => {
+      const item = (data as Record<string, unknown>)[key];
+      const unwrapped = untrack(item, seen);
+      if (unwrapped !== item) {
+        (data as Record<string, unknown>)[key] = unwrapped;
+      }
+    });
+  }
+
+  return data;
+}
+
 /**
  * Representation of a component in ECS
  *
@@ -33,9 +128,39 @@ type ComponentClassType<P> = (new (data: P) => Component<P>) & {
  */
 export default abstract class Component<T = any> {
   /**
-   * Static reference to Component type
+   * Static reference to the next Component type of the current universe
    */
-  static type: number = 1;
+  static get type(): number {
+    return Universe.current.componentType;
+  }
+
+  static set type(type: number) {
+    Universe.current.componentType = type;
+  }
+
+  /**
+   * Registry of the current universe, mapping component classes to stable names
+   */
+  static get registry(): ComponentRegistry {
+    return Universe.current.registry;
+  }
+
+  /**
+   * Validate the data of components having a schema on creation
+   * Should be disabled in production builds
+   */
+  static validation: boolean = true;
+
+  /**
+   * Static reference to the change tick of the current universe
+   */
+  static get tick(): number {
+    return Universe.current.tick;
+  }
+
+  static set tick(tick: number) {
+    Universe.current.tick = tick;
+  }
 
   /**
    * Unique identifier of this component type
@@ -52,6 +177,21 @@ export default abstract class Component<T = any> {
    */
   public attributes: any = {};
 
+  /**
+   * Tick of the last change of this component
+   */
+  public changeTick: number = 0;
+
+  /**
+   * Tick of the last addition of this component to an entity of a world
+   */
+  public addTick: number = 0;
+
+  /**
+   * Universe counting the ticks of this component, the one of the last world it has been added to
+   */
+  public universe: Universe = Universe.current;
+
   /**
    * @param {number} type Unique identifier of this component type
    * @param {T} data Initial values stored by this component
@@ -61,13 +201,112 @@ export default abstract class Component<T = any> {
     this.data = data;
   }
 
+  /**
+   * Get the values stored by this component as plain data
+   *
+   * @returns {T}
+   */
+  public getData(): T {
+    return this.data;
+  }
+
+  /**
+   * Flag this component as changed, so that systems querying changed components are informed
+   */
+  public markChanged(): void {
+    this.changeTick = ++this.universe.tick;
+  }
+
+  /**
+   * Create a deep copy of this component
+   *
+   * @returns {Component}
+   */
+  public clone(): this {
+    return Object.assign(Object.create(Object.getPrototypeOf(this)), this, {
+      data: clone(this.getData()),
+      attributes: clone(this.attributes)
+    });
+  }
+
+  /**
+   * Check if this component has the same type and data as another component
+   *
+   * @param {Component} component Component to compare with
+   * @returns {boolean}
+   */
+  public equals(component: Component): boolean {
+    return component.type === this.type && equals(component.getData(), this.getData());
+  }
+
+  /**
+   * Validate the data of this component against its schema
+   *
+   * @returns {string[]} Validation errors, empty if the data is valid or if this component has no schema
+   */
+  public validate(): string[] {
+    const schema = (this.constructor as { schema?: Schema }).schema;
+    return schema ? validate(schema, this.getData()) : [];
+  }
+
+  /**
+   * Acquire the resources held by this component, after they have been released by `dispose`
+   */
+  public store(): void {}
+
+  /**
+   * Release the resources held by this component
+   */
+  public dispose(): void {}
+
   /**
    * Register a new component class
+   * Named component classes can be looked up in the registry, and their type can be pinned so that several processes
+   * agree on component types regardless of registration order
    *
+   * Component classes registered with a schema can be created with partial data, missing fields using default values
+   * Component classes registered with the `soa` storage kind store their data in typed array columns
+   * Component classes registered with `track` are flagged as changed whenever a property of their data is set, deeply
+   * Component classes registered with `relation` hold the id of a target entity, indexed by the world
+   * Component classes registered with a `pool` size reuse instances released when their entity is removed
+   * Component classes registered with `replicated` are sent by replication servers to their clients
+   *
+   * @param {string} [name] Stable name of this component class
+   * @param {ComponentOptions} [options] Registration options
    * @returns {ComponentClassType}
    */
-  static register<P>(): ComponentClassType<P> {
-    const type = Component.type++;
+  static register<P>(
+    name: string | undefined,
+    options: ComponentOptions & { schema: Schema }
+  ): ComponentClassType<P, [data?: Partial<P>]>;
+  static register<P>(name?: string, options?: ComponentOptions): ComponentClassType<P>;
+  static register<P>(name?: string, options: ComponentOptions = {}): ComponentClassType<P> {
+    const schema = options.schema;
+    const registry = Component.registry;
+
+    if (options.storage === 'soa' && !schema) {
+      throw new Error(`Component.register(): Component ${name ?? ''} requires a schema to use the soa storage kind`);
+    }
+
+    if (typeof name === 'string' && registry.has(name)) {
+      throw new Error(`Component.register(): Component "${name}" is already registered`);
+    }
+
+    let type: number;
+    if (typeof options.type === 'number') {
+      type = options.type;
+      if (registry.hasType(type)) {
+        throw new Error(`Component.register(): Component type ${type} is already registered`);
+      }
+    } else {
+      // Skip types pinned by previous registrations
+      while (registry.hasType(Component.type)) {
+        Component.type++;
+      }
+      type = Component.type++;
+    }
+
+    const storage = options.storage === 'soa' ? new ComponentStorage(type, schema!, options.capacity) : undefined;
 
     class CustomComponent extends Component<P> {
       /**
@@ -75,6 +314,46 @@ export default abstract class Component<T = any> {
        */
       static type = type;
 
+      /**
+       * Schema describing the data fields of this custom component
+       */
+      static schema = schema;
+
+      /**
+       * Typed array storage of this custom component data
+       */
+      static storage = storage;
+
+      /**
+       * Relation options of this custom component
+       */
+      static relation = options.relation;
+
+      /**
+       * Pool of released instances of this custom component
+       */
+      static pool = typeof options.pool === 'number' ? new Pool<CustomComponent>(options.pool) : undefined;
+
+      /**
+       * Flag indicating if this custom component is replicated over the network
+       */
+      static replicated = options.replicated;
+
+      /**
+       * Version of the data shape of this custom component
+       */
+      static version = options.version ?? 0;
+
+      /**
+       * Functions upgrading data to a version of this custom component, by version
+       */
+      static migrations = options.migrations ?? {};
+
+      /**
+       * Row of this component in the typed array storage, -1 if not stored
+       */
+      public row: number = -1;
+
       /**
        * Create a new instance of this custom component
        *
@@ -82,6 +361,134 @@ export default abstract class Component<T = any> {
        */
       constructor(data: P) {
         super(type, data);
+        this.reset(data);
+      }
+
+      /**
+       * Reset this component with new data, called on creation and when a released instance is reused
+       * Can be overridden to reset additional state, calling `super.reset(data)`
+       *
+       * @param {P} data
+       */
+      public reset(data: P): void {
+        this.data = schema ? create<P>(schema, data) : data;
+        this.attributes = {};
+        this.changeTick = 0;
+        this.addTick = 0;
+
+        if (schema && Component.validation) {
+          const errors = validate(schema, this.data);
+          if (errors.length > 0) {
+            throw new Error(`Component.register(): Invalid data for component ${name ?? type}: ${errors.join(', ')}`);
+          }
+        }
+
+        if (storage) {
+          if (this.row < 0) {
+            this.row = storage.allocate();
+          }
+          storage.write(this.row, this.data);
+          this.data = storage.createAccessor<P>(this.row);
+        }
+
+        if (options.track) {
+          this.data = this._track(this.data);
+        }
+      }
+
+      /**
+       * Wrap data in a proxy flagging this component as changed when a property is set or deleted
+       * Nested arrays and plain objects are wrapped when accessed, so that setting their properties is detected too
+       *
+       * @param {P} data Data to track
+       * @returns {P}
+       */
+      private _track(data: P): P {
+        if (typeof data !== 'object' || data === null) {
+          return data;
+        }
+
+        const proxies: WeakMap<object, object> = new WeakMap();
+        const track = (target: object): object => {
+          let proxy = proxies.get(target);
+          if (!proxy) {
+            proxy = new Proxy(target, {
+              get: (target, key) => {
+                const value = Reflect.get(target, key);
+                return Array.isArray(value) || isPlainObject(value) ? track(value) : value;
+              },
+              set: (target, key, value) => {
+                const result = Reflect.set(target, key, untrack(value));
+                this.markChanged();
+                return result;
+              },
+              deleteProperty: (target, key) => {
+                const result = Reflect.deleteProperty(target, key);
+                this.markChanged();
+                return result;
+              }
+            });
+            proxies.set(target, proxy);
+            trackedData.set(proxy, target);
+          }
+          return proxy;
+        };
+
+        return track(data) as P;
+      }
+
+      /**
+       * Get the values stored by this component as plain data
+       * Tracked data are unwrapped from their proxy, so that they can be cloned
+       *
+       * @returns {P}
+       */
+      public getData(): P {
+        if (storage && this.row >= 0) {
+          return storage.read<P>(this.row);
+        }
+
+        return typeof this.data === 'object' && this.data !== null
+          ? ((trackedData.get(this.data) as P | undefined) ?? this.data)
+          : this.data;
+      }
+
+      /**
+       * Create a deep copy of this component
+       * The copy does not hold a row of the typed array storage until it is added to an entity of a world
+       *
+       * @returns {CustomComponent}
+       */
+      public clone(): this {
+        const component = new CustomComponent(clone(this.getData()));
+        component.attributes = clone(this.attributes);
+        component.dispose();
+        return component as this;
+      }
+
+      /**
+       * Store the data of this component in a new row of the typed array storage, if its row has been released
+       */
+      public store(): void {
+        if (storage && this.row < 0) {
+          const data = this.getData();
+          this.row = storage.allocate();
+          storage.write(this.row, data);
+          this.data = options.track
+            ? this._track(storage.createAccessor<P>(this.row))
+            : storage.createAccessor<P>(this.row);
+        }
+      }
+
+      /**
+       * Release the row of this component in the typed array storage, keeping its data as plain data
+       */
+      public dispose(): void {
+        if (storage && this.row >= 0) {
+          this.data = options.track ? this._track(storage.read<P>(this.row)) : storage.read<P>(this.row);
+          storage.free(this.row);
+          this.row = -1;
+        }
       }
 
       /**
@@ -91,7 +498,7 @@ export default abstract class Component<T = any> {
        * @returns {Component[]}
        */
       static allFrom(entity: Entity): CustomComponent[] {
-        return [...entity.components[type]];
+        return [...entity.components[type]] as CustomComponent[];
       }
 
       /**
@@ -101,10 +508,78 @@ export default abstract class Component<T = any> {
        * @returns {Component}
        */
       static oneFrom(entity: Entity): CustomComponent {
-        return entity.components?.[type]?.[0];
+        return entity.components?.[type]?.[0] as CustomComponent;
+      }
+
+      /**
+       * Create an instance of this component, reusing a released instance if available
+       *
+       * @param {P} data
+       * @returns {CustomComponent}
+       */
+      static acquire(data: P): CustomComponent {
+        const component = CustomComponent.pool?.acquire();
+        if (!component) {
+          return new CustomComponent(data);
+        }
+
+        component.reset(data);
+        return component;
+      }
+
+      /**
+       * Return an instance of this component to its pool, if any
+       * Components which are not kept by a pool are disposed
+       *
+       * @param {CustomComponent} component Component to release
+       */
+      static release(component: CustomComponent): void {
+        if (!CustomComponent.pool?.release(component)) {
+          component.dispose();
+        }
+      }
+
+      /**
+       * Upgrade data of this component to the current version
+       * Migrations are applied version after version, versions without migration keeping data as is
+       * Migrated data, and data of the current version, are validated against the schema, only fields declaring a default
+       * value can be missing
+       *
+       * @param {unknown} data Data to upgrade
+       * @param {number} version Version of the data
+       * @returns {P}
+       */
+      static migrate(data: unknown, version: number): P {
+        const current = CustomComponent.version;
+        if (version > current) {
+          throw new Error(
+            `Component.migrate(): Version ${version} of component ${name ?? type} is newer than version ${current}`
+          );
+        }
+        for (let next = version + 1; next <= current; next++) {
+          data = CustomComponent.migrations[next]?.(data) ?? data;
+        }
+
+        if (schema && Component.validation) {
+          const defaults: Record<string, unknown> = {};
+          for (const key in schema) {
+            if (typeof schema[key].default !== 'undefined') {
+              defaults[key] = schema[key].default;
+            }
+          }
+
+          const errors = validate(schema, typeof data === 'object' && data !== null ? { ...defaults, ...data } : data);
+          if (errors.length > 0) {
+            throw new Error(`Component.migrate(): Invalid data for component ${name ?? type}: ${errors.join(', ')}`);
+          }
+        }
+
+        return data as P;
       }
     }
 
+    registry.register(CustomComponent as ComponentClassType<P>, name);
+
     return CustomComponent as ComponentClassType<P>;
   }
 }
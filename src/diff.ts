@@ -0,0 +1,118 @@
+import { getSnapshot } from './checksum';
+import type ComponentRegistry from './registry';
+import { equals } from './schema';
+import type World from './world';
+import type { ComponentSnapshot, EntityDiff, FieldDiff, WorldDiff, WorldSnapshot } from './types';
+
+/**
+ * Compare two values field by field, collecting the differences of their leaf values
+ *
+ * @param {unknown} a First value
+ * @param {unknown} b Second value
+ * @param {string} path Path of the compared values
+ * @param {FieldDiff[]} fields Collected differences
+ * @returns {FieldDiff[]}
+ */
+function compare(a: unknown, b: unknown, path: string = '', fields: FieldDiff[] = []): FieldDiff[] {
+  const nested =
+    typeof a === 'object' && typeof b === 'object' && a !== null && b !== null && Array.isArray(a) === Array.isArray(b);
+
+  if (!nested) {
+    if (!equals(a, b)) {
+      fields.push({ path, a, b });
+    }
+    return fields;
+  }
+
+  new Set([...Object.keys(a), ...Object.keys(b)]).forEach((key) => {
+    compare(
+      (a as Record<string, unknown>)[key],
+      (b as Record<string, unknown>)[key],
+      path ? `${path}.${key}` : key,
+      fields
+    );
+  });
+
+  return fields;
+}
+
+/**
+ * Group components snapshots by name
+ *
+ * @param {ComponentSnapshot[]} components Components snapshots
+ * @returns {Map<string, ComponentSnapshot[]>}
+ */
+function group(components: ComponentSnapshot[]): Map<string, ComponentSnapshot[]> {
+  const groups: Map<string, ComponentSnapshot[]> = new Map();
+
+  components.forEach((component) => {
+    if (!groups.has(component.name)) {
+      groups.set(component.name, []);
+    }
+    groups.get(component.name)!.push(component);
+  });
+
+  return groups;
+}
+
+/**
+ * Compare two worlds or snapshots, reporting added and removed entities and the differences of their components
+ * Components of the same name are compared in order, their data field by field
+ *
+ * @param {World|WorldSnapshot} a First world or snapshot
+ * @param {World|WorldSnapshot} b Second world or snapshot
+ * @param {ComponentRegistry} [registry] Registry mapping component classes to names, used to describe worlds
+ * @returns {WorldDiff} Differences of the second world or snapshot from the first one
+ */
+export function diff(a: World | WorldSnapshot, b: World | WorldSnapshot, registry?: ComponentRegistry): WorldDiff {
+  const entitiesA = new Map(getSnapshot(a, registry).entities.map((entity) => [entity.id, entity]));
+  const entitiesB = new Map(getSnapshot(b, registry).entities.map((entity) => [entity.id, entity]));
+
+  const result: WorldDiff = { added: [], removed: [], changed: [] };
+
+  entitiesA.forEach((_, id) => {
+    if (!entitiesB.has(id)) {
+      result.removed.push(id);
+    }
+  });
+
+  entitiesB.forEach((entityB, id) => {
+    const entityA = entitiesA.get(id);
+    if (!entityA) {
+      result.added.push(id);
+      return;
+    }
+
+    const changes: EntityDiff = { id, added: [], removed: [], changed: [] };
+    const componentsA = group(entityA.components);
+    const componentsB = group(entityB.components);
+
+    new Set([...componentsA.keys(), ...componentsB.keys()]).forEach((name) => {
+      const listA = componentsA.get(name) ?? [];
+      const listB = componentsB.get(name) ?? [];
+
+      for (let index = 0; index < Math.max(listA.length, listB.length); index++) {
+        if (index >= listA.length) {
+          changes.added.push(name);
+        } else if (index >= listB.length) {
+          changes.removed.push(name);
+        } else {
+          const fields = compare(listA[index].data, listB[index].data);
+          if (fields.length > 0) {
+            changes.changed.push({ name, index, fields });
+          }
+        }
+      }
+    });
+
+    if (changes.added.length > 0 || changes.removed.length > 0 || changes.changed.length > 0) {
+      result.changed.push(changes);
+    }
+  });
+
+  result.added.sort((x, y) => x - y);
+  result.removed.sort((x, y) => x - y);
+  result.changed.sort((x, y) => x.id - y.id);
+
+  return result;
+}
@@ -1,6 +1,12 @@
 import type Component from './component';
+import Universe from './universe';
 import type { Susbcription } from './types';
 
+/**
+ * Number of distinct entity ids that can be encoded in a handle
+ */
+const HANDLE_ID_RANGE = 2 ** 32;
+
 /**
  * Representation of an entity in ECS
  *
@@ -10,15 +16,31 @@ import type { Susbcription } from './types';
  */
 export default abstract class Entity {
   /**
-   * Static reference to Entity id
+   * Static reference to the next Entity id of the current universe
    */
-  static id: number = 1;
+  static get id(): number {
+    return Universe.current.entityId;
+  }
+
+  static set id(id: number) {
+    Universe.current.entityId = id;
+  }
 
   /**
-   * Unique identifier of an instance of this entity
+   * Universe this entity has been allocated in
+   */
+  readonly universe: Universe;
+
+  /**
+   * Unique identifier of an instance of this entity, reused once this entity is released
    */
   readonly id: number;
 
+  /**
+   * Generation of the id of this entity, distinguishing it from entities reusing the same id
+   */
+  readonly generation: number;
+
   /**
    * List of components attached to this entity
    */
@@ -31,18 +53,78 @@ export default abstract class Entity {
 
   public active: boolean = true;
 
-  constructor() {
-    this.id = Entity.id++;
+  /**
+   * @param {number} [id] Explicit identifier of this entity, used when restoring entities
+   * @param {number} [generation] Explicit generation of the id of this entity, used when restoring entities
+   */
+  constructor(id?: number, generation?: number) {
+    this.universe = Universe.current;
+    [this.id, this.generation] = this.universe.allocateEntity(id, generation);
+  }
+
+  /**
+   * Handle of this entity, combining its id and generation
+   * Handles of released entities never match the handles of entities reusing their id
+   */
+  get handle(): number {
+    return Entity.getHandle(this.id, this.generation);
+  }
+
+  /**
+   * Combine an entity id and generation into a handle
+   *
+   * @param {number} id Entity id
+   * @param {number} generation Generation of the entity id
+   * @returns {number}
+   */
+  static getHandle(id: number, generation: number): number {
+    return generation * HANDLE_ID_RANGE + id;
+  }
+
+  /**
+   * Get the entity id of a handle
+   *
+   * @param {number} handle Entity handle
+   * @returns {number}
+   */
+  static getId(handle: number): number {
+    return handle % HANDLE_ID_RANGE;
+  }
+
+  /**
+   * Get the generation of the entity id of a handle
+   *
+   * @param {number} handle Entity handle
+   * @returns {number}
+   */
+  static getGeneration(handle: number): number {
+    return Math.floor(handle / HANDLE_ID_RANGE);
+  }
+
+  /**
+   * Release the id of an entity, so that it can be reused by a new entity
+   * The generation of the id is incremented, invalidating the handle of the released entity
+   *
+   * @param {Entity} entity Entity to release
+   */
+  static release(entity: Entity): void {
+    entity.universe.releaseEntity(entity.id, entity.generation);
   }
 
   /**
    * Add a component to this entity
+   * The component class must be registered in the universe of this entity
    *
    * @param {Component} component Component to add to this entity
    */
   public add(component: Component): void {
     const type = component.type;
 
+    const ComponentClass = this.universe.registry.getByType(type);
+    if (!ComponentClass || !(component instanceof ComponentClass)) {
+      throw new Error(`Entity.add(): Component type ${type} belongs to another universe than entity ${this.id}`);
+    }
+
     if (!this.components.hasOwnProperty(type)) {
       this.components[type] = [];
     }
@@ -108,6 +190,19 @@ export default abstract class Entity {
     };
   }
 
+  /**
+   * Reset this entity so that it can be reused, allocating it a new id in its universe
+   * Components and subscriptions are removed, and the entity is made active
+   */
+  public reset(): void {
+    const [id, generation] = this.universe.allocateEntity();
+    Object.assign(this, { id, generation });
+
+    this.components = {};
+    this._subscriptions = [];
+    this.active = true;
+  }
+
   /**
    * Get all components with a specified type
    *
@@ -118,3 +213,11 @@ export default abstract class Entity {
     return [...this.components[type]];
   }
 }
+
+/**
+ * Concrete entity created by the world, when restoring snapshots or creating entities from command buffers
+ *
+ * @exports
+ * @class WorldEntity
+ */
+export class WorldEntity extends Entity {}
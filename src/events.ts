@@ -0,0 +1,206 @@
+import type { EventHandler, EventKey, EventObserver, EventPhase, QueuedEvent } from './types';
+
+/**
+ * Typed publish/subscribe channel of a world
+ * Events are either delivered immediately, or queued and delivered at a specific phase of the world update
+ *
+ * @exports
+ * @class EventBus
+ */
+export default class EventBus {
+  /**
+   * Handlers subscribed to each event
+   */
+  private _handlers: Record<string, EventHandler<any>[]> = {};
+
+  /**
+   * Events queued, in emission order
+   */
+  private _queue: QueuedEvent[] = [];
+
+  /**
+   * Observers of the events emitted or queued on this bus
+   */
+  private _observers: EventObserver[] = [];
+
+  /**
+   * Number of events being delivered, greater than 1 when events are emitted by handlers
+   */
+  private _depth: number = 0;
+
+  /**
+   * Function called on every delivered event, after the handlers of this bus
+   */
+  private _deliver?: (event: string, payload: unknown) => void;
+
+  /**
+   * @param {Function} [deliver] Function called on every delivered event, after the handlers of this bus
+   */
+  constructor(deliver?: (event: string, payload: unknown) => void) {
+    this._deliver = deliver;
+  }
+
+  /**
+   * Define a typed event key, carrying the type of its payload
+   *
+   * @param {string} name Event key name
+   * @returns {EventKey}
+   */
+  static define<P = void>(name: string): EventKey<P> {
+    return name as EventKey<P>;
+  }
+
+  /**
+   * Number of events queued
+   */
+  get size(): number {
+    return this._queue.length;
+  }
+
+  /**
+   * Flag indicating if an event is being delivered
+   */
+  get delivering(): boolean {
+    return this._depth > 0;
+  }
+
+  /**
+   * Subscribe to an event
+   *
+   * @param {EventKey} event Event key
+   * @param {EventHandler} handler Function called with the event payload
+   * @param {boolean} [once] Unsubscribe after the first delivered event
+   * @returns {Function} Unsubscribe function
+   */
+  public on<P>(event: EventKey<P>, handler: EventHandler<P>, once?: boolean): () => void {
+    if (!this._handlers.hasOwnProperty(event)) {
+      this._handlers[event] = [];
+    }
+
+    const callback: EventHandler<P> = once
+      ? (payload) => {
+          unsubscribe();
+          handler(payload);
+        }
+      : handler;
+
+    const unsubscribe = () => {
+      const handlers = this._handlers[event];
+      const index = handlers?.indexOf(callback) ?? -1;
+      if (index >= 0) {
+        handlers.splice(index, 1);
+      }
+
+      if (handlers?.length === 0) {
+        delete this._handlers[event];
+      }
+    };
+
+    this._handlers[event].push(callback);
+    return unsubscribe;
+  }
+
+  /**
+   * Subscribe to the next delivered event only
+   *
+   * @param {EventKey} event Event key
+   * @param {EventHandler} handler Function called with the event payload
+   * @returns {Function} Unsubscribe function
+   */
+  public once<P>(event: EventKey<P>, handler: EventHandler<P>): () => void {
+    return this.on(event, handler, true);
+  }
+
+  /**
+   * Unsubscribe all handlers of an event
+   *
+   * @param {EventKey} event Event key
+   */
+  public off<P>(event: EventKey<P>): void {
+    delete this._handlers[event];
+  }
+
+  /**
+   * Deliver an event immediately
+   *
+   * @param {EventKey} event Event key
+   * @param {P} payload Event payload
+   */
+  public emit<P>(event: EventKey<P>, payload: P): void {
+    [...this._observers].forEach((observer) => observer(event, payload));
+    this._emit(event, payload);
+  }
+
+  /**
+   * Queue an event, delivered when the world reaches a specific phase of its update
+   *
+   * @param {EventKey} event Event key
+   * @param {P} payload Event payload
+   * @param {EventPhase} [phase='postUpdate'] Phase of the world update the event is delivered at
+   */
+  public enqueue<P>(event: EventKey<P>, payload: P, phase: EventPhase = 'postUpdate'): void {
+    [...this._observers].forEach((observer) => observer(event, payload, phase));
+    this._queue.push({ event, payload, phase });
+  }
+
+  /**
+   * Deliver the events queued for a phase, in emission order
+   * Events queued while dispatching are delivered by the next dispatch
+   *
+   * @param {EventPhase} phase Phase of the world update
+   * @returns {number} Number of events delivered
+   */
+  public dispatch(phase: EventPhase): number {
+    const events = this._queue.filter((queued) => queued.phase === phase);
+    if (events.length < 1) {
+      return 0;
+    }
+
+    this._queue = this._queue.filter((queued) => queued.phase !== phase);
+    events.forEach(({ event, payload }) => this._emit(event, payload));
+    return events.length;
+  }
+
+  /**
+   * Observe the events emitted or queued on this bus, before they are delivered
+   * Queued events are observed when queued, not when dispatched
+   *
+   * @param {EventObserver} observer Function called with each emitted or queued event
+   * @returns {Function} Unsubscribe function
+   */
+  public observe(observer: EventObserver): () => void {
+    this._observers.push(observer);
+
+    return () => {
+      const index = this._observers.indexOf(observer);
+      if (index >= 0) {
+        this._observers.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Deliver an event to the handlers of this bus
+   *
+   * @param {string} event Event key
+   * @param {unknown} payload Event payload
+   */
+  private _emit(event: string, payload: unknown): void {
+    this._depth++;
+
+    try {
+      // Copy handlers so that unsubscribing while delivering is safe
+      [...(this._handlers[event] ?? [])].forEach((handler) => handler(payload));
+      this._deliver?.(event, payload);
+    } finally {
+      this._depth--;
+    }
+  }
+
+  /**
+   * Discard all queued events
+   */
+  public clear(): void {
+    this._queue = [];
+  }
+}
@@ -0,0 +1,53 @@
+import type { SystemGroupOptions } from './types';
+
+/**
+ * Named group of systems, used to split the systems of a world into pipeline phases (pre-update, update, render...)
+ * Groups can be nested, enabled or disabled, and updated at their own frequency and time scale
+ *
+ * @exports
+ * @class SystemGroup
+ */
+export default class SystemGroup {
+  /**
+   * Unique name of this group
+   */
+  readonly name: string;
+
+  /**
+   * Name of the parent group of this group
+   */
+  readonly parent?: string;
+
+  /**
+   * Allow systems of this group to be updated
+   */
+  public enabled: boolean;
+
+  /**
+   * Exclude systems of this group from world updates, they are only updated by `world.runGroup()`
+   */
+  public manual: boolean;
+
+  /**
+   * The maximum times per second systems of this group should be updated
+   */
+  public frequency: number;
+
+  /**
+   * Scale applied to the `delta` received by systems of this group, on top of the world `timeScale`
+   */
+  public timeScale: number;
+
+  /**
+   * @param {string} name Unique name of this group
+   * @param {SystemGroupOptions} [options] Group options
+   */
+  constructor(name: string, options: SystemGroupOptions = {}) {
+    this.name = name;
+    this.parent = options.parent;
+    this.enabled = options.enabled ?? true;
+    this.manual = options.manual ?? false;
+    this.frequency = options.frequency ?? 0;
+    this.timeScale = options.timeScale ?? 1;
+  }
+}
@@ -0,0 +1,15 @@
+import Component from './component';
+import Universe from './universe';
+
+/**
+ * Relation of a child entity to its parent entity, holding the id of the parent
+ * Children are removed from the world along with their parent, this relation is registered in every universe
+ * Its type is pinned to 0, below the types allocated to user component classes, so that importing it does not shift them
+ */
+const ChildOf = Universe.default.run(() =>
+  Component.register<number>('ChildOf', { type: 0, relation: { cascade: true } })
+);
+
+Universe.shared.push({ ComponentClass: ChildOf, name: 'ChildOf' });
+
+export default ChildOf;
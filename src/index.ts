@@ -1,7 +1,28 @@
+export { default as CommandBuffer } from './commands';
 export { default as Component } from './component';
+export type { ComponentClassType } from './component';
+export { default as ComponentRegistry } from './registry';
+export { default as ComponentStorage } from './storage';
+export type { TypedArray } from './storage';
 export { default as Entity } from './entity';
+export { default as EventBus } from './events';
+export { default as ChildOf } from './hierarchy';
+export { default as LoopbackTransport } from './loopback';
+export { default as Pool } from './pool';
+export { default as Prefab } from './prefab';
+export { default as Profiler } from './profiler';
+export { default as ReplayPlayer } from './player';
+export { default as ReplayRecorder } from './recorder';
+export { default as ReplicationClient } from './client';
+export { default as ReplicationServer } from './server';
 export { default as System } from './system';
+export { default as Universe } from './universe';
+export { default as SystemGroup } from './group';
 
 export { default, default as World, default as ECS } from './world';
 
+export { decodeSnapshot, encodeSnapshot } from './binary';
+export { checksum } from './checksum';
+export { diff } from './diff';
+
 export type * from './types';
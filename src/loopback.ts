@@ -0,0 +1,120 @@
+import type { ReplicationHandler, ReplicationMessage, Transport } from './types';
+
+/**
+ * In-memory transport connecting peers of the same process, used to test replication without a network
+ * Messages are copied when sent, and delivered when the receiving peer is flushed
+ *
+ * @exports
+ * @class LoopbackTransport
+ */
+export default class LoopbackTransport implements Transport {
+  /**
+   * Peer id of this transport
+   */
+  readonly id: string;
+
+  /**
+   * Transports connected to this transport, by peer id
+   */
+  private _peers: Map<string, LoopbackTransport> = new Map();
+
+  /**
+   * Handlers of the messages received
+   */
+  private _handlers: ReplicationHandler[] = [];
+
+  /**
+   * Messages received and not delivered yet, in reception order
+   */
+  private _inbox: Array<{ peer: string; message: ReplicationMessage }> = [];
+
+  /**
+   * @param {string} id Peer id of this transport
+   */
+  constructor(id: string) {
+    this.id = id;
+  }
+
+  /**
+   * Number of messages received and not delivered yet
+   */
+  get size(): number {
+    return this._inbox.length;
+  }
+
+  /**
+   * Connect this transport to another transport, in both directions
+   *
+   * @param {LoopbackTransport} peer Transport to connect to
+   */
+  public connect(peer: LoopbackTransport): void {
+    this._peers.set(peer.id, peer);
+    peer._peers.set(this.id, this);
+  }
+
+  /**
+   * Disconnect this transport from another transport, in both directions
+   *
+   * @param {LoopbackTransport} peer Transport to disconnect from
+   */
+  public disconnect(peer: LoopbackTransport): void {
+    this._peers.delete(peer.id);
+    peer._peers.delete(this.id);
+  }
+
+  /**
+   * Send a message to a connected peer
+   *
+   * @param {string} peer Peer id of the recipient
+   * @param {ReplicationMessage} message Message to send
+   */
+  public send(peer: string, message: ReplicationMessage): void {
+    const transport = this._peers.get(peer);
+    if (!transport) {
+      throw new Error(`LoopbackTransport.send(): Peer "${peer}" is not connected`);
+    }
+
+    transport._inbox.push({ peer: this.id, message: structuredClone(message) });
+  }
+
+  /**
+   * Subscribe to the messages received
+   *
+   * @param {ReplicationHandler} handler Function called with the peer id of the sender and the message
+   * @returns {Function} Unsubscribe function
+   */
+  public onMessage(handler: ReplicationHandler): () => void {
+    this._handlers.push(handler);
+
+    return () => {
+      const index = this._handlers.indexOf(handler);
+      if (index >= 0) {
+        this._handlers.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Deliver the messages received, in reception order
+   * Messages received while flushing are delivered by the next flush
+   *
+   * @returns {number} Number of messages delivered
+   */
+  public flush(): number {
+    const inbox = this._inbox;
+    this._inbox = [];
+
+    inbox.forEach(({ peer, message }) => {
+      [...this._handlers].forEach((handler) => handler(peer, message));
+    });
+
+    return inbox.length;
+  }
+
+  /**
+   * Discard the messages received and not delivered yet
+   */
+  public clear(): void {
+    this._inbox = [];
+  }
+}
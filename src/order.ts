@@ -0,0 +1,123 @@
+import type System from './system';
+import type { SystemReference } from './types';
+
+/**
+ * Check if a system reference (instance or class) designates a system
+ *
+ * @param {SystemReference} reference System instance or class
+ * @param {System} system System to test
+ * @returns {boolean}
+ */
+function matches(reference: SystemReference, system: System): boolean {
+  return reference === system || (typeof reference === 'function' && system instanceof reference);
+}
+
+/**
+ * Get a readable name of a system
+ *
+ * @param {System} system
+ * @returns {string}
+ */
+function getName(system: System): string {
+  return `${system.constructor.name}#${system.id}`;
+}
+
+/**
+ * Find a cycle among systems dependencies
+ *
+ * @param {System[]} systems Systems left to sort
+ * @param {Map} edges Systems that must run after each system
+ * @returns {System[]}
+ */
+function findCycle(systems: System[], edges: Map<System, Set<System>>): System[] {
+  const visited = new Set<System>();
+  const path: System[] = [];
+
+  const visit = (system: System): System[] | undefined => {
+    const index = path.indexOf(system);
+    if (index >= 0) {
+      return [...path.slice(index), system];
+    }
+
+    if (visited.has(system)) {
+      return;
+    }
+
+    visited.add(system);
+    path.push(system);
+
+    for (const next of edges.get(system)!) {
+      const cycle = systems.includes(next) ? visit(next) : undefined;
+      if (cycle) {
+        return cycle;
+      }
+    }
+
+    path.pop();
+  };
+
+  for (const system of systems) {
+    const cycle = visit(system);
+    if (cycle) {
+      return cycle;
+    }
+  }
+
+  return systems;
+}
+
+/**
+ * Sort systems according to their `before` and `after` dependencies, then by descending `priority`
+ * Systems with the same priority and no dependencies between them keep their relative order
+ *
+ * @param {System[]} systems Systems to sort
+ * @returns {System[]}
+ */
+export function sortSystems(systems: System[]): System[] {
+  const edges = new Map<System, Set<System>>();
+  const inDegrees = new Map<System, number>();
+
+  systems.forEach((system) => {
+    edges.set(system, new Set());
+    inDegrees.set(system, 0);
+  });
+
+  systems.forEach((a) => {
+    systems.forEach((b) => {
+      if (a === b) {
+        return;
+      }
+
+      // `a` must run before `b`
+      if (a.before.some((reference) => matches(reference, b)) || b.after.some((reference) => matches(reference, a))) {
+        if (!edges.get(a)!.has(b)) {
+          edges.get(a)!.add(b);
+          inDegrees.set(b, inDegrees.get(b)! + 1);
+        }
+      }
+    });
+  });
+
+  const sorted: System[] = [];
+  const pending = [...systems];
+
+  while (pending.length > 0) {
+    let next: System | undefined;
+    pending.forEach((system) => {
+      if (inDegrees.get(system) === 0 && (!next || system.priority > next.priority)) {
+        next = system;
+      }
+    });
+
+    if (!next) {
+      const cycle = findCycle(pending, edges).map(getName).join(' -> ');
+      throw new Error(`World: Cycle detected in systems order: ${cycle}`);
+    }
+
+    pending.splice(pending.indexOf(next), 1);
+    sorted.push(next);
+    edges.get(next)!.forEach((system) => inDegrees.set(system, inDegrees.get(system)! - 1));
+  }
+
+  return sorted;
+}
@@ -0,0 +1,203 @@
+import { checksum } from './checksum';
+import type Component from './component';
+import type Entity from './entity';
+import { WorldEntity } from './entity';
+import type ComponentRegistry from './registry';
+import type World from './world';
+import type { ComponentSnapshot, ReplayInput, ReplayLog } from './types';
+
+/**
+ * Player of a replay log, re-simulating a recorded session frame by frame in a world
+ * The world must contain the same systems as the recorded world, and use its own universe
+ *
+ * @exports
+ * @class ReplayPlayer
+ */
+export default class ReplayPlayer {
+  /**
+   * World the replay log is played in
+   */
+  readonly world: World;
+
+  /**
+   * Replay log to play
+   */
+  readonly log: ReplayLog;
+
+  /**
+   * Registry mapping names to component classes
+   */
+  readonly registry: ComponentRegistry;
+
+  /**
+   * Index of the first frame whose checksum differs from the recorded one, -1 if none
+   */
+  public divergence: number = -1;
+
+  /**
+   * Index of the next frame to play
+   */
+  private _frame: number = 0;
+
+  /**
+   * Flag indicating if the world has been restored to the initial state of the replay log
+   */
+  private _started: boolean = false;
+
+  /**
+   * @param {World} world World to play the replay log in
+   * @param {ReplayLog} log Replay log to play
+   * @param {ComponentRegistry} [registry=world.universe.registry] Registry mapping names to component classes
+   */
+  constructor(world: World, log: ReplayLog, registry: ComponentRegistry = world.universe.registry) {
+    this.world = world;
+    this.log = log;
+    this.registry = registry;
+  }
+
+  /**
+   * Index of the next frame to play
+   */
+  get frame(): number {
+    return this._frame;
+  }
+
+  /**
+   * Flag indicating if all frames have been played
+   */
+  get done(): boolean {
+    return this._frame >= this.log.frames.length;
+  }
+
+  /**
+   * Restore the world to the initial state of the replay log, and rewind to the first frame
+   */
+  public reset(): void {
+    this.world.deserialize(this.log.snapshot, this.registry);
+    this.world.universe.restoreAllocator(this.log.allocator);
+    this.world.lastUpdate = this.log.start;
+
+    this._frame = 0;
+    this._started = true;
+    this.divergence = -1;
+  }
+
+  /**
+   * Play the next frame: apply its inputs, update the world and compare the world checksum with the recorded one
+   * The world is restored to the initial state of the replay log before the first frame
+   *
+   * @returns {boolean} True if the world checksum matches the recorded one
+   */
+  public step(): boolean {
+    if (this.done) {
+      throw new Error('ReplayPlayer.step(): All frames have been played');
+    }
+
+    if (!this._started) {
+      this.reset();
+    }
+
+    const frame = this.log.frames[this._frame];
+    frame.inputs.forEach((input) => this._apply(input));
+    this.world.update(frame.time);
+
+    const matches = checksum(this.world, this.registry) === frame.checksum;
+    if (!matches && this.divergence < 0) {
+      this.divergence = this._frame;
+    }
+
+    this._frame++;
+    return matches;
+  }
+
+  /**
+   * Play the remaining frames
+   *
+   * @param {boolean} [stopOnDivergence=true] Stop at the first frame whose checksum differs from the recorded one
+   * @returns {number} Index of the first frame whose checksum differs from the recorded one, -1 if none
+   */
+  public play(stopOnDivergence: boolean = true): number {
+    while (!this.done) {
+      if (!this.step() && stopOnDivergence) {
+        break;
+      }
+    }
+
+    return this.divergence;
+  }
+
+  /**
+   * Apply a recorded input to the world
+   *
+   * @param {ReplayInput} input Input to apply
+   */
+  private _apply(input: ReplayInput): void {
+    switch (input.type) {
+      case 'emit':
+        this.world.events.emit(input.event, structuredClone(input.payload));
+        break;
+      case 'enqueue':
+        this.world.events.enqueue(input.event, structuredClone(input.payload), input.phase);
+        break;
+      case 'addEntity': {
+        const { id, generation, active, components } = input.entity;
+        const entity = this.world.universe.run(() => new WorldEntity(id, generation));
+        entity.active = active;
+        components.forEach((component) => entity.add(this._createComponent(component)));
+        this.world.addEntity(entity);
+        break;
+      }
+      case 'removeEntity':
+        this.world.removeEntity(input.id, input.dispose);
+        break;
+      case 'addComponent':
+        this._getEntity(input.entity).add(this._createComponent(input.component));
+        break;
+      case 'removeComponent': {
+        const entity = this._getEntity(input.entity);
+        const target = this._createComponent(input.component);
+        const component = entity.components[target.type]?.find((component) => component.equals(target));
+        target.dispose();
+        if (component) {
+          entity.remove(component);
+        }
+        break;
+      }
+      case 'setState':
+        this.world.setState(input.state);
+        break;
+    }
+  }
+
+  /**
+   * Get an entity of the world targeted by an input
+   *
+   * @param {number} id Entity id
+   * @returns {Entity}
+   */
+  private _getEntity(id: number): Entity {
+    const entity = this.world.getEntity(id);
+    if (!entity) {
+      throw new Error(`ReplayPlayer.step(): Entity ${id} is not in the world`);
+    }
+
+    return entity;
+  }
+
+  /**
+   * Create a component from its snapshot
+   *
+   * @param {ComponentSnapshot} snapshot Component snapshot
+   * @returns {Component}
+   */
+  private _createComponent({ name, data, attributes }: ComponentSnapshot): Component {
+    const ComponentClass = this.registry.get(name);
+    if (!ComponentClass) {
+      throw new Error(`ReplayPlayer.step(): Component "${name}" is not registered`);
+    }
+
+    const component = new ComponentClass(structuredClone(data));
+    component.attributes = structuredClone(attributes);
+    return component;
+  }
+}
@@ -0,0 +1,97 @@
+import type { PoolStats } from './types';
+
+/**
+ * Pool of reusable objects, avoiding garbage when objects are frequently created and discarded
+ *
+ * @exports
+ * @class Pool
+ * @template T
+ */
+export default class Pool<T> {
+  /**
+   * Maximum number of objects kept in this pool, released objects are discarded once it is reached
+   */
+  public limit: number;
+
+  /**
+   * Statistics of the use of this pool
+   */
+  readonly stats: PoolStats = { hits: 0, misses: 0, releases: 0, discards: 0 };
+
+  /**
+   * Objects available for reuse
+   */
+  private _items: T[] = [];
+
+  /**
+   * Set of the objects available for reuse, used for fast lookups
+   */
+  private _set: Set<T> = new Set();
+
+  /**
+   * @param {number} [limit=Infinity] Maximum number of objects kept in this pool
+   */
+  constructor(limit: number = Infinity) {
+    this.limit = limit;
+  }
+
+  /**
+   * Number of objects available for reuse
+   */
+  get size(): number {
+    return this._items.length;
+  }
+
+  /**
+   * Take an object out of this pool
+   *
+   * @returns {T|undefined} Object to reuse, undefined if this pool is empty
+   */
+  public acquire(): T | undefined {
+    const item = this._items.pop();
+
+    if (typeof item === 'undefined') {
+      this.stats.misses++;
+    } else {
+      this._set.delete(item);
+      this.stats.hits++;
+    }
+
+    return item;
+  }
+
+  /**
+   * Return an object to this pool
+   *
+   * @param {T} item Object to return
+   * @returns {boolean} True if the object has been kept for reuse, false if it has been discarded
+   */
+  public release(item: T): boolean {
+    // Ignore objects already released
+    if (this._set.has(item)) {
+      return true;
+    }
+
+    if (this._items.length >= this.limit) {
+      this.stats.discards++;
+      return false;
+    }
+
+    this._items.push(item);
+    this._set.add(item);
+    this.stats.releases++;
+    return true;
+  }
+
+  /**
+   * Discard all objects of this pool, and reset its statistics
+   */
+  public clear(): void {
+    this._items = [];
+    this._set.clear();
+    this.stats.hits = 0;
+    this.stats.misses = 0;
+    this.stats.releases = 0;
+    this.stats.discards = 0;
+  }
+}
@@ -0,0 +1,199 @@
+import type Entity from './entity';
+import ChildOf from './hierarchy';
+import type ComponentRegistry from './registry';
+import { isPlainObject } from './schema';
+import type World from './world';
+import type { PrefabData } from './types';
+
+/**
+ * Merge the components data of a prefab with overrides
+ * Plain object data are merged property by property, other data are replaced
+ *
+ * @param {Record<string, unknown>} components Components data, by component name
+ * @param {Record<string, unknown>} overrides Overridden components data, by component name
+ * @returns {Record<string, unknown>}
+ */
+function merge(components: Record<string, unknown>, overrides: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...components };
+
+  Object.entries(overrides).forEach(([name, data]) => {
+    merged[name] = isPlainObject(merged[name]) && isPlainObject(data) ? { ...merged[name], ...data } : data;
+  });
+
+  return merged;
+}
+
+/**
+ * Template of an entity, declaring its components data and child entities
+ * Prefabs can inherit from another prefab, and round-trip through a plain JSON-compatible format
+ *
+ * @exports
+ * @class Prefab
+ */
+export default class Prefab {
+  /**
+   * Name of this prefab, used by prefabs inheriting from it
+   */
+  readonly name?: string;
+
+  /**
+   * Prefab this prefab inherits from
+   */
+  readonly base?: Prefab;
+
+  /**
+   * Default data of the components declared by this prefab, by component name
+   */
+  readonly components: Record<string, unknown>;
+
+  /**
+   * Templates of the child entities declared by this prefab
+   */
+  readonly children: Prefab[];
+
+  /**
+   * @param {string} [name] Name of this prefab
+   * @param {Record<string, unknown>} [components={}] Default data of the components, by component name
+   * @param {Prefab[]} [children=[]] Templates of the child entities
+   * @param {Prefab} [base] Prefab this prefab inherits from
+   */
+  constructor(name?: string, components: Record<string, unknown> = {}, children: Prefab[] = [], base?: Prefab) {
+    this.name = name;
+    this.components = components;
+    this.children = children;
+    this.base = base;
+  }
+
+  /**
+   * Create a prefab from its plain data
+   *
+   * @param {PrefabData} data Plain data of the prefab
+   * @param {Record<string, Prefab>} [prefabs={}] Prefabs that can be inherited from, by name
+   * @returns {Prefab}
+   */
+  static fromJSON(data: PrefabData, prefabs: Record<string, Prefab> = {}): Prefab {
+    if (typeof data.extends === 'string' && !prefabs.hasOwnProperty(data.extends)) {
+      throw new Error(`Prefab.fromJSON(): Prefab "${data.extends}" is not defined`);
+    }
+
+    return new Prefab(
+      data.name,
+      structuredClone(data.components ?? {}),
+      (data.children ?? []).map((child) => Prefab.fromJSON(child, prefabs)),
+      typeof data.extends === 'string' ? prefabs[data.extends] : undefined
+    );
+  }
+
+  /**
+   * Get the plain data of this prefab
+   *
+   * @returns {PrefabData}
+   */
+  public toJSON(): PrefabData {
+    const data: PrefabData = {};
+
+    if (typeof this.name === 'string') {
+      data.name = this.name;
+    }
+    if (this.base) {
+      if (typeof this.base.name !== 'string') {
+        throw new Error(`Prefab.toJSON(): Prefab ${this.name ?? ''} inherits from a prefab without name`);
+      }
+      data.extends = this.base.name;
+    }
+
+    data.components = structuredClone(this.components);
+
+    if (this.children.length > 0) {
+      data.children = this.children.map((child) => child.toJSON());
+    }
+
+    return data;
+  }
+
+  /**
+   * Get the default data of all components of this prefab, including inherited ones
+   *
+   * @returns {Record<string, unknown>}
+   */
+  public getComponents(): Record<string, unknown> {
+    return merge(this.base?.getComponents() ?? {}, this.components);
+  }
+
+  /**
+   * Get the templates of all child entities of this prefab, including inherited ones
+   *
+   * @returns {Prefab[]}
+   */
+  public getChildren(): Prefab[] {
+    return [...(this.base?.getChildren() ?? []), ...this.children];
+  }
+
+  /**
+   * Create an entity, and its child entities, from this prefab and add them to a world
+   *
+   * @param {World} world World to add the entities to
+   * @param {Record<string, unknown>} [overrides={}] Overridden components data, by component name
+   * @param {ComponentRegistry} [registry=world.universe.registry] Registry mapping names to component classes
+   * @returns {Entity}
+   */
+  public instantiate(
+    world: World,
+    overrides: Record<string, unknown> = {},
+    registry: ComponentRegistry = world.universe.registry
+  ): Entity {
+    // Validate prefab before altering the world
+    this._validate(overrides, registry);
+
+    return this._create(world, overrides, registry);
+  }
+
+  /**
+   * Check that all components of this prefab and its children are registered
+   *
+   * @param {Record<string, unknown>} overrides Overridden components data, by component name
+   * @param {ComponentRegistry} registry Registry mapping names to component classes
+   */
+  private _validate(overrides: Record<string, unknown>, registry: ComponentRegistry): void {
+    Object.keys(merge(this.getComponents(), overrides)).forEach((name) => {
+      if (!registry.has(name)) {
+        throw new Error(`Prefab.instantiate(): Component "${name}" is not registered`);
+      }
+    });
+
+    this.getChildren().forEach((child) => child._validate({}, registry));
+  }
+
+  /**
+   * Create an entity from this prefab and add it to a world, followed by its child entities
+   *
+   * @param {World} world World to add the entities to
+   * @param {Record<string, unknown>} overrides Overridden components data, by component name
+   * @param {ComponentRegistry} registry Registry mapping names to component classes
+   * @param {Entity} [parent] Parent entity
+   * @returns {Entity}
+   */
+  private _create(
+    world: World,
+    overrides: Record<string, unknown>,
+    registry: ComponentRegistry,
+    parent?: Entity
+  ): Entity {
+    const entity = world.acquireEntity();
+
+    Object.entries(merge(this.getComponents(), overrides)).forEach(([name, data]) => {
+      const ComponentClass = registry.get(name)!;
+      entity.add(new ComponentClass(structuredClone(data)));
+    });
+
+    if (parent) {
+      entity.add(new ChildOf(parent.id));
+    }
+
+    world.addEntity(entity);
+
+    this.getChildren().forEach((child) => child._create(world, {}, registry, entity));
+
+    return entity;
+  }
+}
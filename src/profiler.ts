@@ -0,0 +1,210 @@
+import { now } from 'toosoon-utils/functions';
+
+import type System from './system';
+import type { Clock, ProfilerPhase, ProfilerTiming, SystemProfile } from './types';
+
+type FrameSample = Partial<Record<ProfilerPhase, number>>;
+
+/**
+ * Get a timing summary of samples
+ *
+ * @param {number[]} samples Durations, in milliseconds
+ * @returns {ProfilerTiming}
+ */
+function summarize(samples: number[]): ProfilerTiming {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)] ?? 0;
+
+  return {
+    average: sorted.reduce((sum, sample) => sum + sample, 0) / Math.max(1, sorted.length),
+    p50: percentile(50),
+    p95: percentile(95),
+    p99: percentile(99),
+    max: sorted[sorted.length - 1] ?? 0
+  };
+}
+
+/**
+ * Format a duration for reports
+ *
+ * @param {number} duration Duration, in milliseconds
+ * @returns {string}
+ */
+function format(duration: number): string {
+  return duration.toFixed(3).padStart(9);
+}
+
+/**
+ * Recorder of the time spent by systems, and of their entity counts, over a rolling window of frames
+ *
+ * @exports
+ * @class Profiler
+ */
+export default class Profiler {
+  /**
+   * Number of frames of the rolling window statistics are computed on
+   */
+  public frames: number;
+
+  /**
+   * Clock source used to measure durations, returning a timestamp in milliseconds
+   */
+  readonly clock: Clock;
+
+  /**
+   * Durations recorded during the current frame, by system
+   */
+  private _current: Map<System, FrameSample> = new Map();
+
+  /**
+   * Durations recorded during the last frames, by system
+   */
+  private _samples: Map<System, FrameSample[]> = new Map();
+
+  /**
+   * Entity counts recorded during the last frames, by system
+   */
+  private _entities: Map<System, number[]> = new Map();
+
+  /**
+   * Entity counts recorded during the current frame, by system
+   */
+  private _currentEntities: Map<System, number> = new Map();
+
+  /**
+   * @param {number} [frames=60] Number of frames of the rolling window
+   * @param {Clock} [clock=now] Clock source returning a timestamp in milliseconds
+   */
+  constructor(frames: number = 60, clock: Clock = now) {
+    this.frames = frames;
+    this.clock = clock;
+  }
+
+  /**
+   * Call a function of a system, recording the time spent
+   *
+   * @param {System} system Profiled system
+   * @param {ProfilerPhase} phase Phase of the function
+   * @param {Function} callback Function to call
+   * @returns {T} Value returned by the function
+   */
+  public measure<T>(system: System, phase: ProfilerPhase, callback: () => T): T {
+    const start = this.clock();
+    try {
+      return callback();
+    } finally {
+      this.record(system, phase, this.clock() - start);
+    }
+  }
+
+  /**
+   * Record the time spent by a system during the current frame
+   *
+   * @param {System} system Profiled system
+   * @param {ProfilerPhase} phase Phase of the recorded duration
+   * @param {number} duration Duration, in milliseconds
+   */
+  public record(system: System, phase: ProfilerPhase, duration: number): void {
+    if (!this._current.has(system)) {
+      this._current.set(system, {});
+    }
+
+    const sample = this._current.get(system)!;
+    sample[phase] = (sample[phase] ?? 0) + duration;
+  }
+
+  /**
+   * Record the number of entities processed by a system during the current frame
+   *
+   * @param {System} system Profiled system
+   * @param {number} count Number of entities
+   */
+  public count(system: System, count: number): void {
+    this._currentEntities.set(system, count);
+  }
+
+  /**
+   * Close the current frame, adding its records to the rolling window
+   */
+  public endFrame(): void {
+    const systems = new Set([...this._samples.keys(), ...this._current.keys(), ...this._currentEntities.keys()]);
+
+    systems.forEach((system) => {
+      const samples = this._samples.get(system) ?? [];
+      samples.push(this._current.get(system) ?? {});
+      samples.splice(0, samples.length - this.frames);
+      this._samples.set(system, samples);
+
+      const entities = this._entities.get(system) ?? [];
+      entities.push(this._currentEntities.get(system) ?? 0);
+      entities.splice(0, entities.length - this.frames);
+      this._entities.set(system, entities);
+    });
+
+    this._current.clear();
+    this._currentEntities.clear();
+  }
+
+  /**
+   * Get the profile of each system over the rolling window, sorted by descending average time
+   *
+   * @returns {SystemProfile[]}
+   */
+  public getProfiles(): SystemProfile[] {
+    const profiles: SystemProfile[] = [];
+
+    this._samples.forEach((samples, system) => {
+      const phases: Partial<Record<ProfilerPhase, ProfilerTiming>> = {};
+      const recorded = new Set(samples.flatMap((sample) => Object.keys(sample) as ProfilerPhase[]));
+      recorded.forEach((phase) => {
+        phases[phase] = summarize(samples.map((sample) => sample[phase] ?? 0));
+      });
+
+      const entities = this._entities.get(system) ?? [];
+
+      profiles.push({
+        id: system.id,
+        name: system.constructor.name,
+        entities: entities[entities.length - 1] ?? 0,
+        averageEntities: entities.reduce((sum, count) => sum + count, 0) / Math.max(1, entities.length),
+        total: summarize(samples.map((sample) => Object.values(sample).reduce((sum, duration) => sum + duration, 0))),
+        phases
+      });
+    });
+
+    return profiles.sort((a, b) => b.total.average - a.total.average);
+  }
+
+  /**
+   * Get a text report of the profile of each system over the rolling window
+   *
+   * @returns {string}
+   */
+  public report(): string {
+    const lines = [
+      `${'System'.padEnd(32)}${'Entities'.padStart(9)}${['Avg', 'P50', 'P95', 'P99', 'Max'].map((label) => `${label} ms`.padStart(9)).join('')}`
+    ];
+
+    this.getProfiles().forEach(({ id, name, entities, total, phases }) => {
+      const timing = ({ average, p50, p95, p99, max }: ProfilerTiming) =>
+        [average, p50, p95, p99, max].map(format).join('');
+
+      lines.push(`${`${name}#${id}`.padEnd(32)}${String(entities).padStart(9)}${timing(total)}`);
+      Object.entries(phases).forEach(([phase, phaseTiming]) => {
+        lines.push(`${`  ${phase}`.padEnd(32)}${''.padStart(9)}${timing(phaseTiming)}`);
+      });
+    });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Discard all records
+   */
+  public reset(): void {
+    this._current.clear();
+    this._samples.clear();
+    this._entities.clear();
+    this._currentEntities.clear();
+  }
+}
@@ -0,0 +1,179 @@
+import type Archetype from './archetype';
+import type Entity from './entity';
+
+import { Iterator } from './utils';
+import type { QueryDescription, QueryFilter } from './types';
+
+/**
+ * Sort and deduplicate component types
+ *
+ * @param {number[]} [types=[]] Component types
+ * @returns {number[]}
+ */
+function normalizeTypes(types: number[] = []): number[] {
+  return [...new Set(types)].sort((a, b) => a - b);
+}
+
+/**
+ * Live result of a search for entities matching a query filter
+ * Matching archetypes are added by the world as they are created
+ *
+ * @exports
+ * @class Query
+ */
+export default class Query {
+  /**
+   * Unique key of this query, built from its normalized description
+   */
+  readonly key: string;
+
+  /**
+   * Normalized description of this query
+   */
+  readonly description: Required<QueryDescription>;
+
+  /**
+   * Archetypes matching this query
+   */
+  readonly archetypes: Archetype[] = [];
+
+  /**
+   * @param {QueryFilter} filter Component types, or query description, to search for
+   */
+  constructor(filter: QueryFilter) {
+    this.description = Query.normalize(filter);
+    this.key = Query.getKey(filter);
+  }
+
+  /**
+   * Normalize a query filter into a query description
+   * A list of component types is equivalent to `{ all: componentTypes }`, -1 matching all entities
+   *
+   * @param {QueryFilter} filter Component types, or query description
+   * @returns {QueryDescription}
+   */
+  static normalize(filter: QueryFilter): Required<QueryDescription> {
+    const description: QueryDescription = Array.isArray(filter) ? { all: filter } : filter;
+    const all = normalizeTypes(description.all);
+
+    return {
+      all: all.includes(-1) ? [] : all,
+      none: normalizeTypes(description.none),
+      any: normalizeTypes(description.any),
+      optional: normalizeTypes(description.optional)
+    };
+  }
+
+  /**
+   * Get the unique key of a query filter
+   * Optional component types do not alter matching, hence are not part of the key
+   *
+   * @param {QueryFilter} filter Component types, or query description
+   * @returns {string}
+   */
+  static getKey(filter: QueryFilter): string {
+    const { all, none, any } = Query.normalize(filter);
+    return `${all.join(',')}|${none.join(',')}|${any.join(',')}`;
+  }
+
+  /**
+   * Get the component types expected by a query filter: required, any-of and optional component types
+   * Return [-1] if the filter matches all entities
+   *
+   * @param {QueryFilter} filter Component types, or query description
+   * @returns {number[]}
+   */
+  static getComponentTypes(filter: QueryFilter): number[] {
+    const { all, none, any, optional } = Query.normalize(filter);
+    if (all.length + none.length + any.length === 0) {
+      return [-1];
+    }
+
+    return normalizeTypes([...all, ...any, ...optional]);
+  }
+
+  /**
+   * Check if an archetype matches this query
+   *
+   * @param {Archetype} archetype Archetype to check
+   * @returns {boolean}
+   */
+  public matches(archetype: Archetype): boolean {
+    const { all, none, any } = this.description;
+
+    for (let i = 0, l = all.length; i < l; i++) {
+      if (!archetype.has(all[i])) {
+        return false;
+      }
+    }
+
+    for (let i = 0, l = none.length; i < l; i++) {
+      if (archetype.has(none[i])) {
+        return false;
+      }
+    }
+
+    return any.length === 0 || any.some((type) => archetype.has(type));
+  }
+
+  /**
+   * Add an archetype to this query if it matches its description
+   *
+   * @param {Archetype} archetype Archetype to test
+   * @returns {boolean} True if the archetype has been added
+   */
+  public test(archetype: Archetype): boolean {
+    if (!this.matches(archetype) || this.archetypes.includes(archetype)) {
+      return false;
+    }
+
+    this.archetypes.push(archetype);
+    return true;
+  }
+
+  /**
+   * Number of entities matching this query
+   */
+  get size(): number {
+    let size = 0;
+    for (let i = 0, l = this.archetypes.length; i < l; i++) {
+      size += this.archetypes[i].entities.length;
+    }
+    return size;
+  }
+
+  /**
+   * Get all entities matching this query
+   *
+   * @returns {Entity[]}
+   */
+  public getEntities(): Entity[] {
+    const entities: Entity[] = [];
+    for (let i = 0, l = this.archetypes.length; i < l; i++) {
+      entities.push(...this.archetypes[i].entities);
+    }
+    return entities;
+  }
+
+  /**
+   * Create an iterator over all entities matching this query
+   *
+   * @returns {Iterator}
+   */
+  public iterator(): Iterator<Entity> {
+    let archetypeIndex = 0;
+    let entityIndex = 0;
+
+    return new Iterator<Entity>(() => {
+      while (archetypeIndex < this.archetypes.length) {
+        const entities = this.archetypes[archetypeIndex].entities;
+        if (entityIndex < entities.length) {
+          return entities[entityIndex++];
+        }
+
+        archetypeIndex++;
+        entityIndex = 0;
+      }
+    });
+  }
+}
@@ -0,0 +1,243 @@
+import { checksum } from './checksum';
+import type Component from './component';
+import type Entity from './entity';
+import type ComponentRegistry from './registry';
+import type World from './world';
+import type { ComponentSnapshot, EntitySnapshot, EventPhase, ReplayInput, ReplayLog, StructuralChange } from './types';
+
+/**
+ * Recorder of the frames of a world and of the inputs received between them, producing a replay log
+ * Inputs are the events emitted or queued, and the structural changes made, from outside of the world updates
+ *
+ * @exports
+ * @class ReplayRecorder
+ */
+export default class ReplayRecorder {
+  /**
+   * Recorded world
+   */
+  readonly world: World;
+
+  /**
+   * Registry mapping component classes to names
+   */
+  readonly registry: ComponentRegistry;
+
+  /**
+   * Replay log being recorded
+   */
+  private _log?: ReplayLog;
+
+  /**
+   * Inputs received since the last frame
+   */
+  private _inputs: ReplayInput[] = [];
+
+  /**
+   * Timestamp of the frame being recorded
+   */
+  private _time: number = 0;
+
+  /**
+   * Flag indicating if the world is being updated
+   */
+  private _updating: boolean = false;
+
+  /**
+   * Unsubscribe functions of the world subscriptions
+   */
+  private _unsubscribes: Array<() => void> = [];
+
+  /**
+   * @param {World} world World to record
+   * @param {ComponentRegistry} [registry=world.universe.registry] Registry mapping component classes to names
+   */
+  constructor(world: World, registry: ComponentRegistry = world.universe.registry) {
+    this.world = world;
+    this.registry = registry;
+  }
+
+  /**
+   * Flag indicating if this recorder is recording
+   */
+  get recording(): boolean {
+    return typeof this._log !== 'undefined';
+  }
+
+  /**
+   * Start recording, capturing the current state of the world
+   */
+  public start(): void {
+    if (this.recording) {
+      return;
+    }
+
+    if (this.world.recorder) {
+      throw new Error(`ReplayRecorder.start(): World "${this.world.id}" is already recorded`);
+    }
+
+    this._log = {
+      start: this.world.lastUpdate,
+      snapshot: this.world.serialize(this.registry),
+      allocator: this.world.universe.saveAllocator(),
+      frames: []
+    };
+    this._inputs = [];
+    this._updating = false;
+
+    this.world.recorder = this;
+    this._unsubscribes = [
+      this.world.events.observe((event, payload, phase) => this._onEvent(event, payload, phase)),
+      this.world.onStructuralChange((change) => this._onStructuralChange(change))
+    ];
+  }
+
+  /**
+   * Stop recording
+   * Inputs received since the last frame are discarded
+   *
+   * @returns {ReplayLog} Recorded replay log
+   */
+  public stop(): ReplayLog {
+    if (!this._log) {
+      throw new Error('ReplayRecorder.stop(): Recording has not been started');
+    }
+
+    this._unsubscribes.forEach((unsubscribe) => unsubscribe());
+    this._unsubscribes = [];
+
+    if (this.world.recorder === this) {
+      this.world.recorder = undefined;
+    }
+
+    const log = this._log;
+    this._log = undefined;
+    this._inputs = [];
+    return log;
+  }
+
+  /**
+   * Begin the recording of a frame, called by the world before each update
+   *
+   * @param {number} time Timestamp of the update, in milliseconds
+   */
+  public beginFrame(time: number): void {
+    this._updating = true;
+    this._time = time;
+  }
+
+  /**
+   * End the recording of a frame, called by the world after each update
+   */
+  public endFrame(): void {
+    this._updating = false;
+
+    this._log?.frames.push({
+      inputs: this._inputs,
+      time: this._time,
+      checksum: checksum(this.world, this.registry)
+    });
+    this._inputs = [];
+  }
+
+  /**
+   * Check if an input comes from outside of the world, rather than from its systems or event handlers
+   *
+   * @returns {boolean}
+   */
+  private _isExternal(): boolean {
+    return this.recording && !this._updating && !this.world.events.delivering;
+  }
+
+  /**
+   * Record an event emitted or queued on the world event bus
+   *
+   * @param {string} event Event key
+   * @param {unknown} payload Event payload
+   * @param {EventPhase} [phase] Phase of the world update the event is delivered at, if queued
+   */
+  private _onEvent(event: string, payload: unknown, phase?: EventPhase): void {
+    if (!this._isExternal()) {
+      return;
+    }
+
+    if (typeof phase === 'undefined') {
+      this._inputs.push({ type: 'emit', event, payload: structuredClone(payload) });
+    } else {
+      this._inputs.push({ type: 'enqueue', event, payload: structuredClone(payload), phase });
+    }
+  }
+
+  /**
+   * Record a structural change of the world
+   * Systems can not be recorded, so that adding or removing systems is ignored
+   *
+   * @param {StructuralChange} change Structural change
+   */
+  private _onStructuralChange(change: StructuralChange): void {
+    if (!this._isExternal()) {
+      return;
+    }
+
+    switch (change.type) {
+      case 'entityAdded':
+        this._inputs.push({ type: 'addEntity', entity: this._serializeEntity(change.entity) });
+        break;
+      case 'entityRemoved':
+        this._inputs.push({ type: 'removeEntity', id: change.entity.id, dispose: change.dispose });
+        break;
+      case 'componentAdded':
+        this._inputs.push({
+          type: 'addComponent',
+          entity: change.entity.id,
+          component: this._serializeComponent(change.component)
+        });
+        break;
+      case 'componentRemoved':
+        this._inputs.push({
+          type: 'removeComponent',
+          entity: change.entity.id,
+          component: this._serializeComponent(change.component)
+        });
+        break;
+      case 'stateChanged':
+        this._inputs.push({ type: 'setState', state: change.state });
+        break;
+    }
+  }
+
+  /**
+   * Create a snapshot of an entity and its components
+   *
+   * @param {Entity} entity Entity to serialize
+   * @returns {EntitySnapshot}
+   */
+  private _serializeEntity(entity: Entity): EntitySnapshot {
+    const components: ComponentSnapshot[] = [];
+
+    Object.values(entity.components).forEach((list) => {
+      list.forEach((component) => components.push(this._serializeComponent(component)));
+    });
+
+    return { id: entity.id, generation: entity.generation, active: entity.active, components };
+  }
+
+  /**
+   * Create a snapshot of a component
+   *
+   * @param {Component} component Component to serialize
+   * @returns {ComponentSnapshot}
+   */
+  private _serializeComponent(component: Component): ComponentSnapshot {
+    const name = this.registry.getName(component.type);
+    if (typeof name === 'undefined') {
+      throw new Error(`ReplayRecorder: Component type ${component.type} is not registered`);
+    }
+
+    return {
+      name,
+      data: structuredClone(component.getData()),
+      attributes: structuredClone(component.attributes)
+    };
+  }
+}
@@ -0,0 +1,104 @@
+import type { ComponentClassType } from './component';
+
+/**
+ * Registry of the component classes, optionally mapped to stable names
+ * Names do not depend on registration order, making them suitable for persisted data
+ *
+ * @exports
+ * @class ComponentRegistry
+ */
+export default class ComponentRegistry {
+  /**
+   * Component classes, indexed by name
+   */
+  private _classes: Record<string, ComponentClassType<any>> = {};
+
+  /**
+   * Component names, indexed by component type
+   */
+  private _names: Record<number, string> = {};
+
+  /**
+   * Component classes, indexed by component type
+   */
+  private _types: Record<number, ComponentClassType<any>> = {};
+
+  /**
+   * Register a component class, optionally associated to a name
+   *
+   * @param {ComponentClassType} ComponentClass Component class to register
+   * @param {string} [name] Stable name of the component class
+   */
+  public register(ComponentClass: ComponentClassType<any>, name?: string): void {
+    const type = ComponentClass.type;
+
+    if (this._types.hasOwnProperty(type) && this._types[type] !== ComponentClass) {
+      throw new Error(`ComponentRegistry.register(): Component type ${type} is already registered`);
+    }
+
+    if (typeof name === 'string') {
+      if (this._classes.hasOwnProperty(name) && this._classes[name] !== ComponentClass) {
+        throw new Error(`ComponentRegistry.register(): Component "${name}" is already registered`);
+      }
+
+      if (this._names.hasOwnProperty(type) && this._names[type] !== name) {
+        delete this._classes[this._names[type]];
+      }
+
+      this._classes[name] = ComponentClass;
+      this._names[type] = name;
+    }
+
+    this._types[type] = ComponentClass;
+  }
+
+  /**
+   * Get a component class by name
+   *
+   * @param {string} name Name of the component class
+   * @returns {ComponentClassType|undefined}
+   */
+  public get(name: string): ComponentClassType<any> | undefined {
+    return this._classes[name];
+  }
+
+  /**
+   * Get a component class by type
+   *
+   * @param {number} type Component type
+   * @returns {ComponentClassType|undefined}
+   */
+  public getByType(type: number): ComponentClassType<any> | undefined {
+    return this._types[type];
+  }
+
+  /**
+   * Get the name of a component type
+   *
+   * @param {number} type Component type
+   * @returns {string|undefined}
+   */
+  public getName(type: number): string | undefined {
+    return this._names[type];
+  }
+
+  /**
+   * Check if a name is registered
+   *
+   * @param {string} name Name of the component class
+   * @returns {boolean}
+   */
+  public has(name: string): boolean {
+    return this._classes.hasOwnProperty(name);
+  }
+
+  /**
+   * Check if a component type is registered
+   *
+   * @param {number} type Component type
+   * @returns {boolean}
+   */
+  public hasType(type: number): boolean {
+    return this._types.hasOwnProperty(type);
+  }
+}
@@ -0,0 +1,190 @@
+import type { Schema, SchemaField, SchemaFieldType } from './types';
+
+/**
+ * Default values of each schema field type
+ */
+const DEFAULTS: Record<SchemaFieldType, () => unknown> = {
+  number: () => 0,
+  string: () => '',
+  boolean: () => false,
+  vector2: () => [0, 0],
+  vector3: () => [0, 0, 0],
+  vector4: () => [0, 0, 0, 0],
+  entity: () => null,
+  array: () => []
+};
+
+/**
+ * Sizes of vector field types
+ */
+const VECTOR_SIZES: Partial<Record<SchemaFieldType, number>> = {
+  vector2: 2,
+  vector3: 3,
+  vector4: 4
+};
+
+/**
+ * Check if a value is a plain object
+ *
+ * @param {unknown} value Value to check
+ * @returns {boolean}
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Deep clone a value
+ *
+ * @param {T} value Value to clone
+ * @returns {T}
+ */
+export function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+/**
+ * Deep copy a value without throwing on values which can not be cloned
+ * Arrays and plain objects are copied recursively, other objects are cloned when possible and kept as is otherwise
+ *
+ * @param {T} value Value to copy
+ * @param {Map} [copies] Copies of the objects already copied, by object
+ * @returns {T}
+ */
+export function copy<T>(value: T, copies: Map<unknown, unknown> = new Map()): T {
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  if (copies.has(value)) {
+    return copies.get(value) as T;
+  }
+
+  if (Array.isArray(value) || isPlainObject(value)) {
+    const result: Record<string, unknown> = Array.isArray(value) ? ([] as unknown as Record<string, unknown>) : {};
+    copies.set(value, result);
+    Object.keys(value).forEach((key) => {
+      result[key] = copy((value as Record<string, unknown>)[key], copies);
+    });
+    return result as T;
+  }
+
+  try {
+    return structuredClone(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Check if two values are deeply equal
+ *
+ * @param {unknown} a First value
+ * @param {unknown} b Second value
+ * @returns {boolean}
+ */
+export function equals(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return Number.isNaN(a) && Number.isNaN(b);
+  }
+
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) {
+    return false;
+  }
+
+  return keysA.every(
+    (key) => b.hasOwnProperty(key) && equals((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
+
+/**
+ * Get the default value of a schema field
+ *
+ * @param {SchemaField} field Schema field
+ * @returns {unknown}
+ */
+export function getDefault(field: SchemaField): unknown {
+  return typeof field.default !== 'undefined' ? clone(field.default) : DEFAULTS[field.type]();
+}
+
+/**
+ * Create data from a schema, using default values for missing fields
+ *
+ * @param {Schema} schema Schema describing the data fields
+ * @param {object} [data={}] Partial data
+ * @returns {object}
+ */
+export function create<T>(schema: Schema, data: Partial<T> = {}): T {
+  const result: Record<string, unknown> = { ...data };
+
+  for (const key in schema) {
+    if (typeof result[key] === 'undefined') {
+      result[key] = getDefault(schema[key]);
+    }
+  }
+
+  return result as T;
+}
+
+/**
+ * Check if a value matches a schema field
+ *
+ * @param {SchemaField} field Schema field
+ * @param {unknown} value Value to check
+ * @returns {boolean}
+ */
+function validateField(field: SchemaField, value: unknown): boolean {
+  switch (field.type) {
+    case 'number':
+      return typeof value === 'number';
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'vector2':
+    case 'vector3':
+    case 'vector4':
+      return (
+        Array.isArray(value) &&
+        value.length === VECTOR_SIZES[field.type] &&
+        value.every((item) => typeof item === 'number')
+      );
+    case 'entity':
+      return value === null || typeof value === 'number';
+    case 'array':
+      return Array.isArray(value) && (!field.items || value.every((item) => validateField(field.items!, item)));
+  }
+}
+
+/**
+ * Validate data against a schema
+ *
+ * @param {Schema} schema Schema describing the data fields
+ * @param {unknown} data Data to validate
+ * @returns {string[]} Validation errors, empty if the data is valid
+ */
+export function validate(schema: Schema, data: unknown): string[] {
+  if (typeof data !== 'object' || data === null) {
+    return ['Data is not an object'];
+  }
+
+  const errors: string[] = [];
+
+  for (const key in schema) {
+    if (!validateField(schema[key], (data as Record<string, unknown>)[key])) {
+      errors.push(`Field "${key}" is not a valid ${schema[key].type}`);
+    }
+  }
+
+  return errors;
+}
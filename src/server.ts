@@ -0,0 +1,226 @@
+import type { ComponentClassType } from './component';
+import type ComponentRegistry from './registry';
+import { equals } from './schema';
+import type World from './world';
+import type { ReplicatedEntity, ReplicationMessage, ReplicationState, Transport } from './types';
+
+/**
+ * Replication state of a client of a server
+ */
+type ClientState = {
+  acked: number;
+  baseline: ReplicationState;
+  pending: Map<number, ReplicationState>;
+};
+
+/**
+ * Server replicating the replicated components of a world to clients
+ * Each client receives delta snapshots, containing the changes since the last snapshot it acknowledged
+ *
+ * @exports
+ * @class ReplicationServer
+ */
+export default class ReplicationServer {
+  /**
+   * Replicated world
+   */
+  readonly world: World;
+
+  /**
+   * Transport sending snapshots to clients and receiving their acknowledgements
+   */
+  readonly transport: Transport;
+
+  /**
+   * Registry mapping component classes to names
+   */
+  readonly registry: ComponentRegistry;
+
+  /**
+   * Maximum number of snapshots kept per client while waiting for their acknowledgement
+   */
+  public history: number = 64;
+
+  /**
+   * Tick of the last snapshot sent
+   */
+  private _tick: number = 0;
+
+  /**
+   * Replication state of each client, by peer id
+   */
+  private _clients: Map<string, ClientState> = new Map();
+
+  /**
+   * Unsubscribe function of the transport subscription
+   */
+  private _unsubscribe: () => void;
+
+  /**
+   * @param {World} world World to replicate
+   * @param {Transport} transport Transport sending snapshots to clients and receiving their acknowledgements
+   * @param {ComponentRegistry} [registry=world.universe.registry] Registry mapping component classes to names
+   */
+  constructor(world: World, transport: Transport, registry: ComponentRegistry = world.universe.registry) {
+    this.world = world;
+    this.transport = transport;
+    this.registry = registry;
+
+    this._unsubscribe = transport.onMessage((peer, message) => this.receive(peer, message));
+  }
+
+  /**
+   * Tick of the last snapshot sent
+   */
+  get tick(): number {
+    return this._tick;
+  }
+
+  /**
+   * Peer ids of the clients of this server
+   */
+  get clients(): string[] {
+    return [...this._clients.keys()];
+  }
+
+  /**
+   * Add a client to this server, which receives a full snapshot until it acknowledges one
+   *
+   * @param {string} peer Peer id of the client
+   */
+  public addClient(peer: string): void {
+    if (!this._clients.has(peer)) {
+      this._clients.set(peer, { acked: 0, baseline: new Map(), pending: new Map() });
+    }
+  }
+
+  /**
+   * Remove a client from this server
+   *
+   * @param {string} peer Peer id of the client
+   */
+  public removeClient(peer: string): void {
+    this._clients.delete(peer);
+  }
+
+  /**
+   * Send a delta snapshot of the world to each client
+   *
+   * @returns {number} Tick of the snapshots sent
+   */
+  public send(): number {
+    const tick = ++this._tick;
+    const state = this._getState();
+
+    this._clients.forEach((client, peer) => {
+      const entities: ReplicatedEntity[] = [];
+      const removed: number[] = [];
+
+      state.forEach((components, handle) => {
+        const baseline = client.baseline.get(handle);
+        if (!baseline) {
+          entities.push({ handle, components });
+          return;
+        }
+
+        const changed: Record<string, unknown[]> = {};
+        new Set([...Object.keys(baseline), ...Object.keys(components)]).forEach((name) => {
+          if (!equals(baseline[name], components[name])) {
+            changed[name] = components[name] ?? [];
+          }
+        });
+
+        if (Object.keys(changed).length > 0) {
+          entities.push({ handle, components: changed });
+        }
+      });
+
+      client.baseline.forEach((_, handle) => {
+        if (!state.has(handle)) {
+          removed.push(handle);
+        }
+      });
+
+      client.pending.set(tick, state);
+      if (client.pending.size > this.history) {
+        client.pending.delete(client.pending.keys().next().value!);
+      }
+
+      this.transport.send(peer, { type: 'snapshot', tick, baseline: client.acked, entities, removed });
+    });
+
+    return tick;
+  }
+
+  /**
+   * Handle a message received from a client
+   *
+   * @param {string} peer Peer id of the client
+   * @param {ReplicationMessage} message Received message
+   */
+  public receive(peer: string, message: ReplicationMessage): void {
+    const client = this._clients.get(peer);
+    if (!client || message.type !== 'ack' || message.tick <= client.acked) {
+      return;
+    }
+
+    const state = client.pending.get(message.tick);
+    if (!state) {
+      return;
+    }
+
+    client.acked = message.tick;
+    client.baseline = state;
+    client.pending.forEach((_, tick) => {
+      if (tick <= message.tick) {
+        client.pending.delete(tick);
+      }
+    });
+  }
+
+  /**
+   * Stop receiving messages from clients
+   */
+  public destroy(): void {
+    this._unsubscribe();
+    this._clients.clear();
+  }
+
+  /**
+   * Get the replicated components data of the world entities, by entity handle
+   * Handles are used rather than ids, so that an entity reusing the id of a removed entity is a new entity
+   *
+   * @returns {ReplicationState}
+   */
+  private _getState(): ReplicationState {
+    const state: ReplicationState = new Map();
+
+    this.world.query([-1]).each((entity) => {
+      const components: Record<string, unknown[]> = {};
+
+      Object.values(entity.components).forEach((list) => {
+        list.forEach((component) => {
+          if (!(component.constructor as ComponentClassType<unknown>).replicated) {
+            return;
+          }
+
+          const name = this.registry.getName(component.type);
+          if (typeof name === 'undefined') {
+            throw new Error(`ReplicationServer.send(): Component type ${component.type} is not registered`);
+          }
+
+          if (!components.hasOwnProperty(name)) {
+            components[name] = [];
+          }
+          components[name].push(structuredClone(component.getData()));
+        });
+      });
+
+      if (Object.keys(components).length > 0) {
+        state.set(entity.handle, components);
+      }
+    });
+
+    return state;
+  }
+}
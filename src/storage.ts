@@ -0,0 +1,272 @@
+import type Component from './component';
+import type Entity from './entity';
+import type { NumberFormat, Schema, SchemaField } from './types';
+
+export type TypedArray =
+  Int8Array | Uint8Array | Int16Array | Uint16Array | Int32Array | Uint32Array | Float32Array | Float64Array;
+
+type TypedArrayConstructor = new (length: number) => TypedArray;
+
+/**
+ * Typed array constructors of each number format
+ */
+const TYPED_ARRAYS: Record<NumberFormat, TypedArrayConstructor> = {
+  int8: Int8Array,
+  uint8: Uint8Array,
+  int16: Int16Array,
+  uint16: Uint16Array,
+  int32: Int32Array,
+  uint32: Uint32Array,
+  float32: Float32Array,
+  float64: Float64Array
+};
+
+/**
+ * Number of values stored per row for each field type
+ */
+const STRIDES: Record<string, number> = {
+  number: 1,
+  entity: 1,
+  vector2: 2,
+  vector3: 3,
+  vector4: 4
+};
+
+/**
+ * Storage of numeric component data in typed array columns (structure of arrays)
+ * Each component instance owns a row, its data being an accessor object reading and writing the columns
+ *
+ * @exports
+ * @class ComponentStorage
+ */
+export default class ComponentStorage {
+  /**
+   * Type of the components stored
+   */
+  readonly type: number;
+
+  /**
+   * Schema describing the fields stored
+   */
+  readonly schema: Schema;
+
+  /**
+   * Typed array columns, indexed by field name
+   * Vector fields store their values contiguously, at `row * size` offset
+   * ATTENTION! Columns are reallocated when the storage grows, references should not be kept across frames
+   */
+  readonly columns: Record<string, TypedArray> = {};
+
+  /**
+   * Maximum number of rows before growing
+   */
+  private _capacity: number;
+
+  /**
+   * Number of rows ever allocated
+   */
+  private _size: number = 0;
+
+  /**
+   * Rows freed and available for reuse
+   */
+  private _free: number[] = [];
+
+  /**
+   * @param {number} type Type of the components stored
+   * @param {Schema} schema Schema describing the fields stored
+   * @param {number} [capacity=64] Initial number of rows
+   */
+  constructor(type: number, schema: Schema, capacity: number = 64) {
+    for (const key in schema) {
+      if (!STRIDES.hasOwnProperty(schema[key].type)) {
+        throw new Error(
+          `ComponentStorage: Field "${key}" of type ${schema[key].type} can not be stored in typed arrays`
+        );
+      }
+    }
+
+    this.type = type;
+    this.schema = schema;
+    this._capacity = Math.max(1, capacity);
+
+    for (const key in schema) {
+      this.columns[key] = this._createColumn(schema[key], this._capacity);
+    }
+  }
+
+  /**
+   * Number of rows currently allocated
+   */
+  get size(): number {
+    return this._size - this._free.length;
+  }
+
+  /**
+   * Allocate a row
+   *
+   * @returns {number}
+   */
+  public allocate(): number {
+    if (this._free.length > 0) {
+      return this._free.pop() as number;
+    }
+
+    if (this._size >= this._capacity) {
+      this._grow(this._capacity * 2);
+    }
+
+    return this._size++;
+  }
+
+  /**
+   * Free a row, making it available for reuse
+   *
+   * @param {number} row Row to free
+   */
+  public free(row: number): void {
+    if (row < 0 || row >= this._size || this._free.includes(row)) {
+      return;
+    }
+
+    this._free.push(row);
+  }
+
+  /**
+   * Read the values of a row as plain data
+   *
+   * @param {number} row Row to read
+   * @returns {object}
+   */
+  public read<T>(row: number): T {
+    const data: Record<string, unknown> = {};
+    for (const key in this.schema) {
+      data[key] = this._get(key, row);
+    }
+    return data as T;
+  }
+
+  /**
+   * Write plain data into a row
+   *
+   * @param {number} row Row to write into
+   * @param {object} data Data to write
+   */
+  public write<T>(row: number, data: T): void {
+    for (const key in this.schema) {
+      const value = (data as Record<string, unknown>)[key];
+      if (typeof value !== 'undefined') {
+        this._set(key, row, value);
+      }
+    }
+  }
+
+  /**
+   * Create an object accessing the values of a row through getters and setters
+   * Vector fields are returned as typed array views, writing into them updates the columns
+   *
+   * @param {number} row Row to access
+   * @returns {object}
+   */
+  public createAccessor<T>(row: number): T {
+    const accessor = {};
+
+    for (const key in this.schema) {
+      Object.defineProperty(accessor, key, {
+        enumerable: true,
+        get: () => this._get(key, row, true),
+        set: (value: unknown) => this._set(key, row, value)
+      });
+    }
+
+    return accessor as T;
+  }
+
+  /**
+   * Iterate over the rows of the first component of this type attached to each entity
+   *
+   * @param {Entity[]} entities Entities to iterate over
+   * @param {Function} callback Function called with the row of each entity
+   */
+  public forEach(entities: Entity[], callback: (row: number, entity: Entity) => void): void {
+    for (let i = 0, l = entities.length; i < l; i++) {
+      const component = entities[i].components[this.type]?.[0] as (Component & { row?: number }) | undefined;
+      if (typeof component?.row === 'number' && component.row >= 0) {
+        callback(component.row, entities[i]);
+      }
+    }
+  }
+
+  /**
+   * Create a typed array column for a field
+   *
+   * @param {SchemaField} field Schema field
+   * @param {number} capacity Number of rows
+   * @returns {TypedArray}
+   */
+  private _createColumn(field: SchemaField, capacity: number): TypedArray {
+    const format = field.type === 'entity' ? 'int32' : (field.format ?? 'float32');
+    return new TYPED_ARRAYS[format](capacity * STRIDES[field.type]);
+  }
+
+  /**
+   * Reallocate all columns with a larger capacity
+   *
+   * @param {number} capacity New number of rows
+   */
+  private _grow(capacity: number): void {
+    for (const key in this.schema) {
+      const column = this._createColumn(this.schema[key], capacity);
+      column.set(this.columns[key]);
+      this.columns[key] = column;
+    }
+
+    this._capacity = capacity;
+  }
+
+  /**
+   * Get the value of a field in a row
+   *
+   * @param {string} key Field name
+   * @param {number} row Row to read
+   * @param {boolean} [view=false] Return vectors as typed array views instead of plain arrays
+   * @returns {unknown}
+   */
+  private _get(key: string, row: number, view: boolean = false): unknown {
+    const field = this.schema[key];
+    const column = this.columns[key];
+    const stride = STRIDES[field.type];
+
+    if (field.type === 'entity') {
+      return column[row] < 0 ? null : column[row];
+    }
+
+    if (stride === 1) {
+      return column[row];
+    }
+
+    const values = column.subarray(row * stride, row * stride + stride);
+    return view ? values : Array.from(values);
+  }
+
+  /**
+   * Set the value of a field in a row
+   *
+   * @param {string} key Field name
+   * @param {number} row Row to write into
+   * @param {unknown} value Value to write
+   */
+  private _set(key: string, row: number, value: unknown): void {
+    const field = this.schema[key];
+    const column = this.columns[key];
+    const stride = STRIDES[field.type];
+
+    if (field.type === 'entity') {
+      column[row] = value === null ? -1 : (value as number);
+    } else if (stride === 1) {
+      column[row] = value as number;
+    } else {
+      column.set(value as ArrayLike<number>, row * stride);
+    }
+  }
+}
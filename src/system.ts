@@ -2,9 +2,11 @@ import type Component from './component';
 import type Entity from './entity';
 import type World from './world';
 
+import Query from './query';
+import Universe from './universe';
 import { Iterator } from './utils';
 import { ECSState } from './types';
-import type { Listener } from './types';
+import type { EventKey, EventPhase, Listener, QueryDescription, QueryFilter, SystemReference } from './types';
 
 /**
  * Represent the logic that transforms component data of an entity from its current state to its next state
@@ -16,9 +18,20 @@ import type { Listener } from './types';
  */
 export default abstract class System {
   /**
-   * Static reference to System id
+   * Static reference to the next System id of the current universe
    */
-  static id: number = 1;
+  static get id(): number {
+    return Universe.current.systemId;
+  }
+
+  static set id(id: number) {
+    Universe.current.systemId = id;
+  }
+
+  /**
+   * Universe this system has been allocated in
+   */
+  readonly universe: Universe = Universe.current;
 
   /**
    * Unique identifier of an instance of this system
@@ -26,11 +39,16 @@ export default abstract class System {
   readonly id: number;
 
   /**
-   * IDs of the types of components this system expects the entity to have before it can act on
-   * If you want to create a system that acts on all entities, enter [-1]
+   * IDs of the types of components this system expects (required, any-of and optional component types)
+   * Equals [-1] if this system acts on all entities
    */
   readonly componentTypes: number[] = [];
 
+  /**
+   * Description of the entities this system acts on
+   */
+  readonly filter: QueryDescription;
+
   /**
    * An array of states that allow the `update` method to be called
    */
@@ -42,9 +60,29 @@ export default abstract class System {
   readonly frequency: number;
 
   /**
-   *
+   * Systems with a higher priority are updated first, unless constrained by `before` and `after` dependencies
+   */
+  public priority: number = 0;
+
+  /**
+   * Systems (instances or classes) this system must be updated before
+   */
+  public before: SystemReference[] = [];
+
+  /**
+   * Systems (instances or classes) this system must be updated after
+   */
+  public after: SystemReference[] = [];
+
+  /**
+   * Name of the system group this system belongs to
    */
-  readonly listeners: Record<string, Listener[]> = {};
+  public group?: string;
+
+  /**
+   * Event listeners of this system
+   */
+  readonly listeners: Record<string, Listener<any>[]> = {};
 
   /**
    * Reference to the ECS World, changed at runtime during interactions
@@ -52,19 +90,20 @@ export default abstract class System {
   public world!: World;
 
   /**
-   * @param {number[]} componentTypes IDs of the types of components this system expects the entity to have before it can act on
+   * @param {QueryFilter} filter IDs of the types of components this system expects the entity to have before it can act on, or query description
    * @param {string[]} [states='Any'] An array of states that allow the `update` method to be called
    * @param {number} [frequency=0] The maximum times per second this system should be updated
    */
-  constructor(componentTypes: number[], states: string[] | number = [ECSState.Any], frequency: number = 0) {
+  constructor(filter: QueryFilter, states: string[] | number = [ECSState.Any], frequency: number = 0) {
     // Handle second argument as frequency
     if (typeof states === 'number') {
       frequency = states;
       states = [ECSState.Any];
     }
 
-    this.id = System.id++;
-    this.componentTypes = componentTypes;
+    this.id = this.universe.systemId++;
+    this.filter = Query.normalize(filter);
+    this.componentTypes = Query.getComponentTypes(filter);
     this.states = states;
     this.frequency = frequency;
   }
@@ -73,10 +112,10 @@ export default abstract class System {
    * Allow to trigger any event. Systems interested in this event will be notified immediately
    * Injected by ECS at runtime
    *
-   * @param {string} event Event key name
-   * @param {any} data Event data
+   * @param {EventKey} event Event key
+   * @param {P} data Event data
    */
-  public trigger?: (event: string, data: any) => void;
+  public trigger?: <P>(event: EventKey<P>, data: P) => void;
 
   /**
    * Called when:
@@ -154,17 +193,28 @@ export default abstract class System {
    */
   public afterUpdateAll?(time: number, delta: number, entities: Entity[]): void;
 
+  /**
+   * Called once per world update, after all systems have been updated
+   * Used by rendering systems to blend between the last two simulation states when the world runs in fixed-step mode
+   *
+   * @param {number} time World current game time
+   * @param {number} alpha Interpolation factor between the previous and the current simulation states
+   * @param {Entity} entity Rendered entity
+   */
+  public render?(time: number, alpha: number, entity: Entity): void;
+
   /**
    * Allow the system to listen for a specific event that occurred during any update
    *
    * In callback, the system has access to the existing entities in the world that are processed by this system,
    * in the form of an Iterator, and the raw data sent by the event trigger.
    *
-   * @param {string} event
+   * @param {EventKey} event Event key
    * @param {Listener} listener
    * @param {boolean} [once]
+   * @returns {Function} Function removing this listener
    */
-  protected addListener(event: string, listener: Listener, once?: boolean): void {
+  protected addListener<P>(event: EventKey<P>, listener: Listener<P>, once?: boolean): () => void {
     if (!this.listeners.hasOwnProperty(event)) {
       this.listeners[event] = [];
     }
@@ -173,41 +223,103 @@ export default abstract class System {
       const callback = listener.bind(this);
 
       listener = (data, entities) => {
+        remove();
         callback(data, entities);
-
-        const index = this.listeners[event].indexOf(listener);
-        if (index >= 0) {
-          this.listeners[event].splice(index, 1);
-        }
-
-        if (this.listeners[event].length === 0) {
-          delete this.listeners[event];
-        }
       };
     }
 
+    const remove = () => this.removeListener(event, listener);
+
     this.listeners[event].push(listener);
+    return remove;
   }
 
   /**
-   * Remove an event listener from this system
+   * Remove an event listener from this system, or all listeners of an event if no listener is provided
    *
-   * @param {string} event
+   * @param {EventKey} event Event key
+   * @param {Listener} [listener] Listener to remove
    */
-  protected removeListener(event: string): void {
-    if (this.listeners.hasOwnProperty(event)) {
+  protected removeListener<P>(event: EventKey<P>, listener?: Listener<P>): void {
+    if (!this.listeners.hasOwnProperty(event)) {
+      return;
+    }
+
+    if (listener) {
+      const index = this.listeners[event].indexOf(listener);
+      if (index >= 0) {
+        this.listeners[event].splice(index, 1);
+      }
+    }
+
+    if (!listener || this.listeners[event].length === 0) {
       delete this.listeners[event];
     }
   }
 
   /**
-   * Search in the world for all entities that have a specific set of components
+   * Deliver an event immediately to the world event bus and the systems listening for it
+   *
+   * @param {EventKey} event Event key
+   * @param {P} payload Event payload
+   */
+  protected emit<P>(event: EventKey<P>, payload: P): void {
+    this.world.events.emit(event, payload);
+  }
+
+  /**
+   * Queue an event, delivered when the world reaches a specific phase of its update
+   *
+   * @param {EventKey} event Event key
+   * @param {P} payload Event payload
+   * @param {EventPhase} [phase='postUpdate'] Phase of the world update the event is delivered at
+   */
+  protected enqueue<P>(event: EventKey<P>, payload: P, phase?: EventPhase): void {
+    this.world.events.enqueue(event, payload, phase);
+  }
+
+  /**
+   * Search in the world for all entities matching a query filter
    *
-   * @param {number[]} componentTypes
+   * @param {QueryFilter} filter Component types, or query description, to search for
    * @returns {Iterator}
    */
-  protected query(componentTypes: []): Iterator<Entity> {
-    return this.world.query(componentTypes);
+  protected query(filter: QueryFilter): Iterator<Entity> {
+    return this.world.query(filter);
+  }
+
+  /**
+   * Search in the world for entities matching this system, whose component of a specific type has been added since
+   * this system last ran
+   *
+   * @param {number} componentType Component type to check
+   * @param {QueryFilter} [filter=this.filter] Component types, or query description, to search for
+   * @returns {Entity[]}
+   */
+  protected queryAdded(componentType: number, filter: QueryFilter = this.filter): Entity[] {
+    return this.world.queryAdded(componentType, this.world.getSystemTick(this), filter);
+  }
+
+  /**
+   * Search in the world for entities matching this system, whose component of a specific type has been changed (or
+   * added) since this system last ran
+   *
+   * @param {number} componentType Component type to check
+   * @param {QueryFilter} [filter=this.filter] Component types, or query description, to search for
+   * @returns {Entity[]}
+   */
+  protected queryChanged(componentType: number, filter: QueryFilter = this.filter): Entity[] {
+    return this.world.queryChanged(componentType, this.world.getSystemTick(this), filter);
+  }
+
+  /**
+   * Search in the world for entities which lost a component of a specific type since this system last ran
+   *
+   * @param {number} componentType Component type to check
+   * @returns {Entity[]}
+   */
+  protected queryRemoved(componentType: number): Entity[] {
+    return this.world.queryRemoved(componentType, this.world.getSystemTick(this));
   }
 
   /**
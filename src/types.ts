@@ -1,11 +1,273 @@
 import Component from './component';
 import Entity from './entity';
+import System from './system';
 import { Iterator } from './utils';
 
 export enum ECSState {
   Any = 'Any'
 }
 
+export type Clock = () => number;
+
+export type SchemaFieldType = 'number' | 'string' | 'boolean' | 'vector2' | 'vector3' | 'vector4' | 'entity' | 'array';
+
+export type NumberFormat = 'int8' | 'uint8' | 'int16' | 'uint16' | 'int32' | 'uint32' | 'float32' | 'float64';
+
+export type SchemaField = {
+  type: SchemaFieldType;
+  default?: unknown;
+  items?: SchemaField;
+  format?: NumberFormat;
+};
+
+export type Schema = Record<string, SchemaField>;
+
+export type ComponentOptions = {
+  type?: number;
+  schema?: Schema;
+  storage?: 'object' | 'soa';
+  capacity?: number;
+  track?: boolean;
+  relation?: RelationOptions;
+  pool?: number;
+  replicated?: boolean;
+  version?: number;
+  migrations?: Record<number, ComponentMigration>;
+};
+
+export type ComponentMigration = (data: any) => unknown;
+
+export type RelationOptions = {
+  cascade?: boolean;
+};
+
+export type RemovedComponent = {
+  entity: Entity;
+  component: Component;
+  tick: number;
+};
+
+export type PoolStats = {
+  hits: number;
+  misses: number;
+  releases: number;
+  discards: number;
+};
+
+export type QueryDescription = {
+  all?: number[];
+  none?: number[];
+  any?: number[];
+  optional?: number[];
+};
+
+export type QueryFilter = number[] | QueryDescription;
+
+export type Command =
+  | { type: 'createEntity'; entity: Entity; components: Component[] }
+  | { type: 'removeEntity'; entity: Entity }
+  | { type: 'add'; entity: Entity; component: Component }
+  | { type: 'remove'; entity: Entity; component: Component };
+
+export type FlushMode = 'system' | 'frame';
+
+export type SystemReference = System | (abstract new (...args: any[]) => System);
+
+export type SystemGroupOptions = {
+  parent?: string;
+  enabled?: boolean;
+  manual?: boolean;
+  frequency?: number;
+  timeScale?: number;
+};
+
 export type Susbcription = (entity: Entity, added?: Component, removed?: Component) => void;
 
-export type Listener = (data: unknown, entities: Iterator<Entity>) => void;
+export type Listener<P = unknown> = (data: P, entities: Iterator<Entity>) => void;
+
+export type EventKey<P = unknown> = string & { readonly __payload?: P };
+
+export type EventHandler<P = unknown> = (payload: P) => void;
+
+export type EventPhase = 'preUpdate' | 'postUpdate' | 'postRender';
+
+export type EventObserver = (event: string, payload: unknown, phase?: EventPhase) => void;
+
+export type QueuedEvent = {
+  event: string;
+  payload: unknown;
+  phase: EventPhase;
+};
+
+export type ProfilerPhase = 'beforeUpdateAll' | 'update' | 'afterUpdateAll' | 'render' | 'enter' | 'exit' | 'listener';
+
+export type ProfilerTiming = {
+  average: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+};
+
+export type SystemProfile = {
+  id: number;
+  name: string;
+  entities: number;
+  averageEntities: number;
+  total: ProfilerTiming;
+  phases: Partial<Record<ProfilerPhase, ProfilerTiming>>;
+};
+
+export type PrefabData = {
+  name?: string;
+  extends?: string;
+  components?: Record<string, unknown>;
+  children?: PrefabData[];
+};
+
+export type ComponentInspection = {
+  type: number;
+  name?: string;
+  data: unknown;
+  attributes: any;
+};
+
+export type EntityInspection = {
+  id: number;
+  generation: number;
+  handle: number;
+  active: boolean;
+  components: ComponentInspection[];
+  systems: number[];
+};
+
+export type SystemInspection = {
+  id: number;
+  name: string;
+  componentTypes: number[];
+  states: string[];
+  frequency: number;
+  priority: number;
+  group?: string;
+  active: boolean;
+  entities: number[];
+};
+
+export type WorldInspection = {
+  id: string;
+  state: string;
+  time: number;
+  timeScale: number;
+  entities: EntityInspection[];
+  systems: SystemInspection[];
+};
+
+export type StructuralChange =
+  | { type: 'entityAdded'; entity: Entity }
+  | { type: 'entityRemoved'; entity: Entity; dispose: boolean }
+  | { type: 'componentAdded'; entity: Entity; component: Component }
+  | { type: 'componentRemoved'; entity: Entity; component: Component }
+  | { type: 'systemAdded'; system: System }
+  | { type: 'systemRemoved'; system: System }
+  | { type: 'stateChanged'; state: string; previousState: string };
+
+export type StructuralChangeListener = (change: StructuralChange) => void;
+
+export type ComponentSnapshot = {
+  name: string;
+  version?: number;
+  data: unknown;
+  attributes: any;
+};
+
+export type EntitySnapshot = {
+  id: number;
+  generation?: number;
+  active: boolean;
+  components: ComponentSnapshot[];
+};
+
+export type WorldSnapshot = {
+  id: string;
+  state: string;
+  time: number;
+  entities: EntitySnapshot[];
+};
+
+export type MigrationFailure = {
+  id: number;
+  name: string;
+  version: number;
+  error: string;
+};
+
+export type FieldDiff = {
+  path: string;
+  a: unknown;
+  b: unknown;
+};
+
+export type ComponentDiff = {
+  name: string;
+  index: number;
+  fields: FieldDiff[];
+};
+
+export type EntityDiff = {
+  id: number;
+  added: string[];
+  removed: string[];
+  changed: ComponentDiff[];
+};
+
+export type WorldDiff = {
+  added: number[];
+  removed: number[];
+  changed: EntityDiff[];
+};
+
+export type ReplicatedEntity = {
+  handle: number;
+  components: Record<string, unknown[]>;
+};
+
+export type ReplicationState = Map<number, Record<string, unknown[]>>;
+
+export type ReplicationMessage =
+  | { type: 'snapshot'; tick: number; baseline: number; entities: ReplicatedEntity[]; removed: number[] }
+  | { type: 'ack'; tick: number };
+
+export type ReplicationHandler = (peer: string, message: ReplicationMessage) => void;
+
+export type Transport = {
+  send(peer: string, message: ReplicationMessage): void;
+  onMessage(handler: ReplicationHandler): () => void;
+};
+
+export type AllocatorState = {
+  entityId: number;
+  freeIds: number[];
+  generations: Record<number, number>;
+};
+
+export type ReplayInput =
+  | { type: 'emit'; event: string; payload: unknown }
+  | { type: 'enqueue'; event: string; payload: unknown; phase: EventPhase }
+  | { type: 'addEntity'; entity: EntitySnapshot }
+  | { type: 'removeEntity'; id: number; dispose: boolean }
+  | { type: 'addComponent'; entity: number; component: ComponentSnapshot }
+  | { type: 'removeComponent'; entity: number; component: ComponentSnapshot }
+  | { type: 'setState'; state: string };
+
+export type ReplayFrame = {
+  inputs: ReplayInput[];
+  time: number;
+  checksum: string;
+};
+
+export type ReplayLog = {
+  start: number;
+  snapshot: WorldSnapshot;
+  allocator: AllocatorState;
+  frames: ReplayFrame[];
+};
@@ -0,0 +1,184 @@
+import type { ComponentClassType } from './component';
+import ComponentRegistry from './registry';
+import type { AllocatorState } from './types';
+
+/**
+ * Number of distinct generations of an entity id, keeping entity handles safe integers
+ */
+const GENERATION_RANGE = 2 ** 21;
+
+/**
+ * Scope of id allocation and component registration, shared by the worlds using it
+ * Entities, systems and component classes are allocated in the current universe when they are created
+ *
+ * @exports
+ * @class Universe
+ */
+export default class Universe {
+  /**
+   * Component classes registered in every universe, with their name
+   */
+  static shared: Array<{ ComponentClass: ComponentClassType<any>; name: string }> = [];
+
+  /**
+   * Universe used when no other universe is current
+   */
+  static default: Universe = new Universe();
+
+  /**
+   * Universe in which entities, systems and component classes are currently allocated
+   */
+  static current: Universe = Universe.default;
+
+  /**
+   * Registry of the component classes of this universe
+   */
+  readonly registry: ComponentRegistry = new ComponentRegistry();
+
+  /**
+   * Next entity id of this universe
+   */
+  public entityId: number = 1;
+
+  /**
+   * Next system id of this universe
+   */
+  public systemId: number = 1;
+
+  /**
+   * Next component type of this universe
+   */
+  public componentType: number = 1;
+
+  /**
+   * Change tick of this universe, incremented on every component change, addition or removal
+   */
+  public tick: number = 0;
+
+  /**
+   * Ids released by removed entities, reused by new entities in release order
+   */
+  private _freeIds: number[] = [];
+
+  /**
+   * Current generation of each entity id, incremented each time the id is released
+   */
+  private _generations: Record<number, number> = {};
+
+  /**
+   * Ids of the entities allocated and not yet released
+   */
+  private _liveIds: Set<number> = new Set();
+
+  constructor() {
+    Universe.shared.forEach(({ ComponentClass, name }) => this.registry.register(ComponentClass, name));
+  }
+
+  /**
+   * Call a function with this universe as the current universe
+   *
+   * @param {Function} callback Function to call
+   * @returns {T} Value returned by the function
+   */
+  public run<T>(callback: () => T): T {
+    const previous = Universe.current;
+    Universe.current = this;
+
+    try {
+      return callback();
+    } finally {
+      Universe.current = previous;
+    }
+  }
+
+  /**
+   * Allocate an entity id, reusing released ids first
+   * Explicit ids must not be allocated to another entity which has not been released yet
+   *
+   * @param {number} [id] Explicit entity id, used when restoring entities
+   * @param {number} [generation] Explicit generation of the entity id, used when restoring entities
+   * @returns {[number, number]} Entity id and generation
+   */
+  public allocateEntity(id?: number, generation?: number): [id: number, generation: number] {
+    if (typeof id === 'number') {
+      if (this._liveIds.has(id)) {
+        throw new Error(`Universe.allocateEntity(): Entity id ${id} is already allocated`);
+      }
+
+      this.entityId = Math.max(this.entityId, id + 1);
+
+      const index = this._freeIds.indexOf(id);
+      if (index >= 0) {
+        this._freeIds.splice(index, 1);
+      }
+    } else {
+      id = this._freeIds.shift() ?? this.entityId++;
+    }
+
+    if (typeof generation === 'number') {
+      this._generations[id] = generation;
+    }
+
+    this._liveIds.add(id);
+    return [id, this._generations[id] ?? 0];
+  }
+
+  /**
+   * Check if an entity id is allocated to an entity which has not been released yet
+   *
+   * @param {number} id Entity id
+   * @returns {boolean}
+   */
+  public isAllocated(id: number): boolean {
+    return this._liveIds.has(id);
+  }
+
+  /**
+   * Get the current generation of an entity id
+   * Entities whose generation differs have been released
+   *
+   * @param {number} id Entity id
+   * @returns {number}
+   */
+  public getGeneration(id: number): number {
+    return this._generations[id] ?? 0;
+  }
+
+  /**
+   * Release an entity id, so that it can be reused by a new entity
+   * The generation of the id is incremented, invalidating the handle of the released entity
+   *
+   * @param {number} id Entity id
+   * @param {number} generation Generation of the released entity
+   */
+  public releaseEntity(id: number, generation: number): void {
+    // Ignore entities already released
+    if (generation !== this.getGeneration(id)) {
+      return;
+    }
+
+    this._generations[id] = (generation + 1) % GENERATION_RANGE;
+    this._freeIds.push(id);
+    this._liveIds.delete(id);
+  }
+
+  /**
+   * Get a plain copy of the entity id allocator state of this universe
+   *
+   * @returns {AllocatorState}
+   */
+  public saveAllocator(): AllocatorState {
+    return { entityId: this.entityId, freeIds: [...this._freeIds], generations: { ...this._generations } };
+  }
+
+  /**
+   * Restore the entity id allocator state of this universe, so that entity ids are allocated in the same order
+   *
+   * @param {AllocatorState} state Allocator state to restore
+   */
+  public restoreAllocator(state: AllocatorState): void {
+    this.entityId = state.entityId;
+    this._freeIds = [...state.freeIds];
+    this._generations = { ...state.generations };
+  }
+}
@@ -1,12 +1,49 @@
 import { now } from 'toosoon-utils/functions';
 
+import Archetype from './archetype';
+import CommandBuffer from './commands';
 import Component from './component';
-import Entity from './entity';
+import type { ComponentClassType } from './component';
+import Entity, { WorldEntity } from './entity';
+import EventBus from './events';
+import SystemGroup from './group';
+import ChildOf from './hierarchy';
+import { sortSystems } from './order';
+import type Pool from './pool';
+import type Profiler from './profiler';
+import type ReplayRecorder from './recorder';
+import Query from './query';
 import System from './system';
+import Universe from './universe';
+import { copy } from './schema';
 
 import { Iterator } from './utils';
 import { ECSState } from './types';
-import type { Listener } from './types';
+import type ComponentRegistry from './registry';
+import type {
+  Clock,
+  ComponentInspection,
+  ComponentSnapshot,
+  EntityInspection,
+  EntitySnapshot,
+  EventKey,
+  FlushMode,
+  Listener,
+  MigrationFailure,
+  ProfilerPhase,
+  QueryFilter,
+  RemovedComponent,
+  StructuralChange,
+  StructuralChangeListener,
+  SystemInspection,
+  WorldInspection,
+  WorldSnapshot
+} from './types';
+
+/**
+ * Tolerance of the fixed-step accumulator, in milliseconds, absorbing floating-point rounding errors
+ */
+const STEP_EPSILON = 1e-6;
 
 /**
  * The very definition of the ECS World
@@ -35,6 +72,49 @@ export default class World {
    */
   readonly id: string;
 
+  /**
+   * Clock source used by every timing path of this world, returning a timestamp in milliseconds
+   */
+  readonly clock: Clock;
+
+  /**
+   * Universe of this world, scoping the ids of its entities and systems and its component registration
+   */
+  readonly universe: Universe;
+
+  /**
+   * Buffer of structural changes, applied at sync points during updates
+   */
+  readonly commands: CommandBuffer = new CommandBuffer(this);
+
+  /**
+   * Pool of removed entities, reused by `acquireEntity()`
+   * Only entities created by the world (not custom entity classes) are pooled
+   */
+  public entityPool?: Pool<Entity>;
+
+  /**
+   * Profiler recording the time spent by each system and its entity count, disabled when undefined
+   */
+  public profiler?: Profiler;
+
+  /**
+   * Replay recorder capturing the frames of this world, set while recording
+   */
+  public recorder?: ReplayRecorder;
+
+  /**
+   * Event bus of this world, delivering events to its subscribers and to the systems listening for them
+   */
+  readonly events: EventBus = new EventBus((event, data) => this._notifySystems(event, data));
+
+  /**
+   * Sync point at which the command buffer is applied during updates
+   * - `system`: After each system update
+   * - `frame`: At the end of each update
+   */
+  public flushMode: FlushMode = 'system';
+
   /**
    * All systems in this world
    */
@@ -45,6 +125,16 @@ export default class World {
    */
   private _entities: Entity[] = [];
 
+  /**
+   * Index the entities of this world by id
+   */
+  private _entityIds: Record<number, Entity> = {};
+
+  /**
+   * Per-entity timing records of removed entities, reused when entities are pooled
+   */
+  private _records: Array<Record<number, number>> = [];
+
   /**
    * Index the systems that must be run for each entity
    */
@@ -66,9 +156,54 @@ export default class World {
   private _entitySubscription: Record<number, () => void> = {};
 
   /**
-   * Save queries
+   * System groups of this world, indexed by name
+   */
+  private _groups: Record<string, SystemGroup> = {};
+
+  /**
+   * Record the last instant each system group was updated in this world
+   */
+  private _groupLastUpdate: Record<string, number> = {};
+
+  /**
+   * Archetypes of this world, indexed by key
+   */
+  private _archetypes: Record<string, Archetype> = {};
+
+  /**
+   * Index the archetype each entity is stored in
+   */
+  private _entityArchetypes: Record<number, Archetype> = {};
+
+  /**
+   * Save queries, indexed by key
+   */
+  private _queryCache: Record<string, Query> = {};
+
+  /**
+   * Record the change tick at which each system was last run in this world
    */
-  private _queryCache: Record<number, Entity[]> = {};
+  private _systemTicks: Map<System, number> = new Map();
+
+  /**
+   * Components removed from entities of this world, kept until all systems have run since their removal
+   */
+  private _removedComponents: RemovedComponent[] = [];
+
+  /**
+   * Index the entities holding a relation to each target entity (id), by relation type, in insertion order
+   */
+  private _relations: Record<number, Record<number, Entity[]>> = {};
+
+  /**
+   * Index the query matching the entities of each system
+   */
+  private _systemQueries: WeakMap<System, Query> = new WeakMap();
+
+  /**
+   * Listeners notified of the structural changes of this world
+   */
+  private _structuralChangeListeners: StructuralChangeListener[] = [];
 
   /**
    * World state determining which systems are updated
@@ -85,10 +220,28 @@ export default class World {
    */
   public timeScale: number = 1;
 
+  /**
+   * Duration of a fixed simulation step, in seconds
+   * When greater than 0, systems are updated at a fixed rate and always receive this value as `delta`
+   * When 0, systems are updated once per `update` call with a variable `delta`
+   */
+  public fixedStep: number = 0;
+
+  /**
+   * The maximum number of fixed simulation steps run by a single `update` call, preventing the world from spiraling
+   * when it cannot keep up. Remaining time is dropped
+   */
+  public maxSteps: number = 5;
+
+  /**
+   * Scaled time accumulated and not yet consumed by fixed simulation steps
+   */
+  private _accumulator: number = 0;
+
   /**
    * Last execution of update method
    */
-  private _lastUpdate: number = now();
+  private _lastUpdate: number;
 
   /**
    * The timestamp of the game, different from the real world, is updated according to timeScale
@@ -101,28 +254,45 @@ export default class World {
   /**
    * @param {string} [id='']
    * @param {System[]} [systems=[]]
+   * @param {Clock} [clock=now] Clock source returning a timestamp in milliseconds
+   * @param {Universe} [universe=Universe.current] Universe of this world
    */
-  constructor(id: string = '', systems: System[] = []) {
+  constructor(id: string = '', systems: System[] = [], clock: Clock = now, universe: Universe = Universe.current) {
     this.id = id;
+    this.clock = clock;
+    this.universe = universe;
+    this._lastUpdate = clock();
     systems.forEach((system) => this.addSystem(system));
   }
 
   /**
    * Injection for the system trigger method
    *
+   * @param {EventKey} event Event key
+   * @param {P} data Event data
+   */
+  private _systemTrigger = <P>(event: EventKey<P>, data: P): void => {
+    this.events.emit(event, data);
+  };
+
+  /**
+   * Notify the systems listening for an event
+   *
    * @param {string} event Event key name
-   * @param {any} data Event data
+   * @param {unknown} data Event data
    */
-  private _systemTrigger = (event: string, data: any): void => {
+  private _notifySystems(event: string, data: unknown): void {
     this._systems.forEach((system) => {
       const listeners: Record<string, Listener[]> = system.listeners;
       if (listeners.hasOwnProperty(event) && listeners[event].length > 0) {
         this._inject(system);
-        const entitiesIterator = this.query(system.componentTypes);
-        listeners[event].forEach((listener) => listener(data, entitiesIterator));
+        const entitiesIterator = this._getSystemQuery(system).iterator();
+        [...listeners[event]].forEach((listener) =>
+          this._profile(system, 'listener', () => listener(data, entitiesIterator))
+        );
       }
     });
-  };
+  }
 
   /**
    * Update this world state
@@ -133,6 +303,7 @@ export default class World {
     const oldState = this._state;
     this._state = state;
     this._systems.forEach((system) => system.onStateChange?.(state, oldState));
+    this._notifyStructuralChange({ type: 'stateChanged', state, previousState: oldState });
   }
 
   /**
@@ -141,13 +312,27 @@ export default class World {
    * @param {Entity} entity Entity to add to this world
    */
   public addEntity(entity: Entity): void {
-    if (!entity || this._entities.includes(entity)) {
+    if (!entity || this._entityIds[entity.id] === entity) {
       return;
     }
 
+    if (entity.universe !== this.universe) {
+      throw new Error(`World.addEntity(): Entity ${entity.id} belongs to another universe`);
+    }
+
+    if (entity.generation !== this.universe.getGeneration(entity.id)) {
+      throw new Error(`World.addEntity(): Entity ${entity.id} has been released`);
+    }
+
+    if (this._entityIds.hasOwnProperty(entity.id)) {
+      throw new Error(`World.addEntity(): Entity id ${entity.id} is already used by another entity`);
+    }
+
     this._entities.push(entity);
-    this._entitySystemLastUpdate[entity.id] = {};
-    this._entitySystemLastUpdateGame[entity.id] = {};
+    this._entityIds[entity.id] = entity;
+    this._setEntityArchetype(entity, this._getArchetype(this._getEntityComponentTypes(entity)));
+    this._entitySystemLastUpdate[entity.id] = this._acquireRecord();
+    this._entitySystemLastUpdateGame[entity.id] = this._acquireRecord();
 
     // Remove entity subscription
     if (this._entitySubscription.hasOwnProperty(entity.id)) {
@@ -157,13 +342,34 @@ export default class World {
 
     // Add new subscription
     this._entitySubscription[entity.id] = entity.subscribe((entity, added, removed) => {
+      if (added) {
+        this._onComponentAdded(entity, added);
+      }
+      if (removed) {
+        this._onComponentRemoved(entity, removed);
+      }
+
+      this._updateEntityArchetype(entity, added, removed);
       this._onEntityUpdate(entity, added, removed);
       this._indexEntity(entity);
+
+      if (added) {
+        this._notifyStructuralChange({ type: 'componentAdded', entity, component: added });
+      }
+      if (removed) {
+        this._notifyStructuralChange({ type: 'componentRemoved', entity, component: removed });
+        removed.dispose();
+      }
+    });
+
+    Object.values(entity.components).forEach((components) => {
+      components.forEach((component) => this._onComponentAdded(entity, component));
     });
 
     entity.onAdded?.();
 
     this._indexEntity(entity);
+    this._notifyStructuralChange({ type: 'entityAdded', entity });
   }
 
   /**
@@ -176,27 +382,25 @@ export default class World {
     // Handle `id` argument as `Entity`
     let entity = typeof id === 'number' ? (this.getEntity(id) as Entity) : id;
 
-    if (!entity) {
+    // Ignore entities which are not in this world, such as stale entities whose id has been reused
+    if (
+      !entity ||
+      this._entityIds[entity.id] !== entity ||
+      entity.generation !== this.universe.getGeneration(entity.id)
+    ) {
       return;
     }
 
-    // Clear up _queryCache
-    const removeCached: number[] = [];
-    Object.keys(this._queryCache).forEach((component) => {
-      const type = Number(component);
-      if (entity.getComponents(type).length > 0) {
-        removeCached.push(type);
-      }
-    });
+    this._entities.splice(this._entities.indexOf(entity), 1);
+    delete this._entityIds[entity.id];
 
-    removeCached.forEach((cache) => {
-      delete this._queryCache[cache];
-    });
+    // Remove entity from its archetype
+    this._entityArchetypes[entity.id]?.remove(entity);
+    delete this._entityArchetypes[entity.id];
 
-    const index = this._entities.indexOf(entity);
-    if (index >= 0) {
-      this._entities.splice(index, 1);
-    }
+    Object.values(entity.components).forEach((components) => {
+      components.forEach((component) => this._onComponentRemoved(entity, component));
+    });
 
     // Remove entity subscription
     if (this._entitySubscription.hasOwnProperty(entity.id)) {
@@ -208,22 +412,77 @@ export default class World {
     this._entitySystems[entity.id]?.forEach((system) => {
       if (system.exit) {
         this._inject(system);
-        system.exit(entity);
+        this._profile(system, 'exit', () => system.exit!(entity));
       }
     });
 
     entity.onRemoved?.();
 
+    // Recycle timing records
+    if (this.entityPool && this._records.length < this.entityPool.limit * 2) {
+      this._records.push(this._entitySystemLastUpdate[entity.id], this._entitySystemLastUpdateGame[entity.id]);
+    }
+
     // Remove associative indexes
     delete this._entitySystems[entity.id];
     delete this._entitySystemLastUpdate[entity.id];
     delete this._entitySystemLastUpdateGame[entity.id];
 
+    this._removeRelations(entity);
+
+    this._notifyStructuralChange({ type: 'entityRemoved', entity, dispose });
+
     if (dispose) {
+      Entity.release(entity);
+      this._releaseEntity(entity);
       entity = null as any;
     }
   }
 
+  /**
+   * Get an entity to add to this world, reusing a pooled entity if available
+   *
+   * @returns {Entity}
+   */
+  public acquireEntity(): Entity {
+    const entity = this.entityPool?.acquire();
+    if (!entity) {
+      return this.universe.run(() => new WorldEntity());
+    }
+
+    entity.reset();
+    return entity;
+  }
+
+  /**
+   * Get an empty timing record, reusing a recycled record if available
+   *
+   * @returns {Record<number, number>}
+   */
+  private _acquireRecord(): Record<number, number> {
+    const record = this._records.pop() ?? {};
+    for (const id in record) {
+      delete record[id];
+    }
+    return record;
+  }
+
+  /**
+   * Return the components of a removed entity to their pools, and the entity to the entity pool
+   *
+   * @param {Entity} entity Removed entity
+   */
+  private _releaseEntity(entity: Entity): void {
+    Object.values(entity.components).forEach((components) => {
+      components.forEach((component) => (component.constructor as ComponentClassType<unknown>).release?.(component));
+    });
+
+    if (this.entityPool && entity instanceof WorldEntity) {
+      entity.components = {};
+      this.entityPool.release(entity);
+    }
+  }
+
   /**
    * Add a system to this world
    *
@@ -234,12 +493,17 @@ export default class World {
       return;
     }
 
-    this._systems.push(system);
+    if (system.universe !== this.universe) {
+      throw new Error(`World.addSystem(): System ${system.id} belongs to another universe`);
+    }
 
-    // Index entities
-    this._entities.forEach((entity) => {
-      this._indexEntity(entity, system);
-    });
+    this._systems = sortSystems([...this._systems, system]);
+    this._systemTicks.set(system, this.universe.tick);
+
+    // Index entities matching this system
+    this._getSystemQuery(system)
+      .getEntities()
+      .forEach((entity) => this._indexEntity(entity, system));
 
     // Call system enter
     this._entities.forEach((entity) => {
@@ -248,7 +512,7 @@ export default class World {
         if (systems && systems.includes(system)) {
           if (system.enter) {
             this._inject(system);
-            system.enter(entity);
+            this._profile(system, 'enter', () => system.enter!(entity));
           }
         }
       }
@@ -256,6 +520,7 @@ export default class World {
 
     this._inject(system);
     system.onAdded?.();
+    this._notifyStructuralChange({ type: 'systemAdded', system });
   }
 
   /**
@@ -278,7 +543,7 @@ export default class World {
         if (systems?.includes(system)) {
           if (system.exit) {
             this._inject(system);
-            system.exit(entity);
+            this._profile(system, 'exit', () => system.exit!(entity));
           }
         }
       }
@@ -286,6 +551,7 @@ export default class World {
 
     const index = this._systems.indexOf(system);
     this._systems.splice(index, 1);
+    this._systemTicks.delete(system);
 
     if (system.world === this) {
       system.destroy();
@@ -296,41 +562,22 @@ export default class World {
 
     // Index entities
     this._entities.forEach((entity) => this._indexEntity(entity, system));
+
+    if (index >= 0) {
+      this._notifyStructuralChange({ type: 'systemRemoved', system });
+    }
   }
 
   /**
-   * Search for all entities that have a specific set of components
+   * Search for all entities matching a query filter
+   * A list of component types matches entities having all of them, a query description allows to also filter out
+   * entities having `none` of some types, or having `any` of some types
    *
-   * @param {number[]} componentTypes Component types to search for
+   * @param {QueryFilter} filter Component types, or query description, to search for
    * @returns {Iterator}
    */
-  public query(componentTypes: number[]): Iterator<Entity> {
-    let index = 0;
-
-    return new Iterator<Entity>(() => {
-      outside: for (let l = this._entities.length; index < l; index++) {
-        const entity = this._entities[index];
-
-        // Prevent unnecessary processing
-        if (componentTypes.includes(-1)) {
-          return entity;
-        }
-
-        // Allow to query for all entities in this world. -1 = All components
-        const entityComponentIDs: number[] = [-1].concat(
-          Object.keys(entity.components).map((key) => Number.parseInt(key, 10))
-        );
-
-        for (let i = 0, j = componentTypes.length; i < j; i++) {
-          if (!entityComponentIDs.includes(componentTypes[i])) {
-            continue outside;
-          }
-        }
-
-        // Entity has all the components
-        return entity;
-      }
-    });
+  public query(filter: QueryFilter): Iterator<Entity> {
+    return this._getQuery(filter).iterator();
   }
 
   /**
@@ -340,145 +587,481 @@ export default class World {
    * @returns {Entity[]}
    */
   public queryEntitiesByComponent(componentType: number): Entity[] {
-    if (this._queryCache.hasOwnProperty(componentType)) {
-      return this._queryCache[componentType];
-    }
+    return this._getQuery([componentType]).getEntities();
+  }
 
-    const entities: Entity[] = [];
-    this._entities.forEach((entity) => {
-      const entityComponentIDs: number[] = [-1].concat(
-        Object.keys(entity.components).map((key) => Number.parseInt(key, 10))
+  /**
+   * Search for entities matching a query filter, whose component of a specific type has been added since a tick
+   *
+   * @param {number} componentType Component type to check
+   * @param {number} since Change tick to compare with
+   * @param {QueryFilter} [filter=[componentType]] Component types, or query description, to search for
+   * @returns {Entity[]}
+   */
+  public queryAdded(componentType: number, since: number, filter: QueryFilter = [componentType]): Entity[] {
+    return this._getQuery(filter)
+      .getEntities()
+      .filter((entity) => entity.components[componentType]?.some((component) => component.addTick > since));
+  }
+
+  /**
+   * Search for entities matching a query filter, whose component of a specific type has been changed (or added)
+   * since a tick
+   *
+   * @param {number} componentType Component type to check
+   * @param {number} since Change tick to compare with
+   * @param {QueryFilter} [filter=[componentType]] Component types, or query description, to search for
+   * @returns {Entity[]}
+   */
+  public queryChanged(componentType: number, since: number, filter: QueryFilter = [componentType]): Entity[] {
+    return this._getQuery(filter)
+      .getEntities()
+      .filter((entity) =>
+        entity.components[componentType]?.some((component) => Math.max(component.changeTick, component.addTick) > since)
       );
+  }
+
+  /**
+   * Search for entities which lost a component of a specific type since a tick, including entities removed from
+   * this world
+   *
+   * @param {number} componentType Component type to check
+   * @param {number} since Change tick to compare with
+   * @returns {Entity[]}
+   */
+  public queryRemoved(componentType: number, since: number): Entity[] {
+    const entities: Entity[] = [];
 
-      if (entityComponentIDs.includes(componentType)) {
+    this._removedComponents.forEach(({ entity, component, tick }) => {
+      if (component.type === componentType && tick > since && !entities.includes(entity)) {
         entities.push(entity);
       }
     });
 
-    if (entities.length > 0) {
-      this._queryCache[componentType] = entities;
-    }
-
     return entities;
   }
 
   /**
-   * Inject the execution context into the system
-   * A system can exist on several worlds at the same time, ECS ensures that global methods will always reference the
-   * currently running world
+   * Get the change tick at which a system was last run in this world
    *
-   * @param {System} system System to inject in this world
-   * @returns {System}
+   * @param {System} system
+   * @returns {number}
    */
-  private _inject(system: System): System {
-    system.world = this;
-    system.trigger = this._systemTrigger;
-    return system;
+  public getSystemTick(system: System): number {
+    return this._systemTicks.get(system) ?? 0;
   }
 
   /**
-   * Index an entity for a specific system
+   * Set the parent of an entity, removing its previous parent if any
    *
-   * @param {Entity} entity Entity to index
-   * @param {System} system System to index
+   * @param {Entity} child Child entity
+   * @param {Entity} [parent] Parent entity, the child is detached from its parent if not provided
+   * @param {number} [index] Index of the child among the children of its parent (default is last)
    */
-  private _indexEntitySystem = (entity: Entity, system: System): void => {
-    const index = this._entitySystems[entity.id].indexOf(system);
-
-    if (!this._systems.includes(system)) {
-      if (index >= 0) {
-        this._entitySystems[entity.id].splice(index, 1);
-        delete this._entitySystemLastUpdate[entity.id][system.id];
-        delete this._entitySystemLastUpdateGame[entity.id][system.id];
-      }
-      return;
+  public setParent(child: Entity, parent?: Entity, index?: number): void {
+    if (parent && (parent === child || this.getAncestors(parent).includes(child))) {
+      throw new Error(`World.setParent(): Entity ${child.id} can not be a child of its descendant ${parent.id}`);
     }
 
-    const systemComponentTypes = system.componentTypes;
-
-    for (let a = 0, l = systemComponentTypes.length; a < l; a++) {
-      // Allow a system to receive updates from all entities in this world. -1 = All components
-      let entityComponentIDs: number[] = [-1].concat(
-        Object.keys(entity.components).map((key) => Number.parseInt(key, 10))
-      );
-      if (!entityComponentIDs.includes(systemComponentTypes[a])) {
-        if (index >= 0) {
-          // Inform the system of relationship removal
-          if (system.exit) {
-            this._inject(system);
-            system.exit(entity);
-          }
+    [...(child.components[ChildOf.type] ?? [])].forEach((component) => child.remove(component));
 
-          this._entitySystems[entity.id].splice(index, 1);
-          delete this._entitySystemLastUpdate[entity.id][system.id];
-          delete this._entitySystemLastUpdateGame[entity.id][system.id];
-        }
-        return;
-      }
+    if (!parent) {
+      return;
     }
 
-    // Entity has all the components this system needs
-    if (index < 0) {
-      this._entitySystems[entity.id].push(system);
-      this._entitySystemLastUpdate[entity.id][system.id] = now();
-      this._entitySystemLastUpdateGame[entity.id][system.id] = this._gameTime;
+    child.add(new ChildOf(parent.id));
 
-      // Informs the system about the new relationship
-      if (system.enter) {
-        this._inject(system);
-        system.enter(entity);
-      }
+    const children = this._relations[parent.id]?.[ChildOf.type];
+    if (typeof index === 'number' && children?.includes(child)) {
+      children.splice(children.indexOf(child), 1);
+      children.splice(index, 0, child);
     }
-  };
+  }
 
   /**
-   * Index an entity
+   * Get the parent of an entity
    *
-   * @param {Entity} entity Entity to index
-   * @param {System} [system] System to index
+   * @param {Entity} entity Child entity
+   * @returns {Entity|undefined}
    */
-  private _indexEntity(entity: Entity, system?: System): void {
-    if (!this._entitySystems.hasOwnProperty(entity.id)) {
-      this._entitySystems[entity.id] = [];
-    }
+  public getParent(entity: Entity): Entity | undefined {
+    return this.getTargets(entity, ChildOf.type)[0];
+  }
 
-    if (system) {
-      // Index entity for a specific system
-      this._indexEntitySystem(entity, system);
-    } else {
-      // Index the entire entity
-      this._systems.forEach((system) => this._indexEntitySystem(entity, system));
-    }
+  /**
+   * Get the children of an entity, in order
+   *
+   * @param {Entity} entity Parent entity
+   * @returns {Entity[]}
+   */
+  public getChildren(entity: Entity): Entity[] {
+    return this.getRelated(ChildOf.type, entity);
   }
 
   /**
-   * Call the `change` method of the systems in this world when an entity receives or loses components
+   * Get the ancestors of an entity, from its parent to the root of its hierarchy
    *
-   * @param {Entity} entity Updated entity
-   * @param {Component} [added] Component added to the entity
-   * @param {Component} [removed] Component removed from the entity
+   * @param {Entity} entity Descendant entity
+   * @returns {Entity[]}
    */
-  private _onEntityUpdate(entity: Entity, added?: Component, removed?: Component): void {
-    const systems = this._entitySystems[entity.id];
-    if (!systems) {
-      return;
-    }
+  public getAncestors(entity: Entity): Entity[] {
+    const ancestors: Entity[] = [];
 
-    // Save systems to notify
-    const toNotify: System[] = [];
+    let parent = this.getParent(entity);
+    while (parent && !ancestors.includes(parent)) {
+      ancestors.push(parent);
+      parent = this.getParent(parent);
+    }
 
-    systems.forEach((system) => {
-      const needsNotify =
-        system.componentTypes.includes(-1) ||
-        (added && system.componentTypes.includes(added.type)) ||
-        (removed && system.componentTypes.includes(removed.type));
+    return ancestors;
+  }
 
-      if (system.change && needsNotify) {
-        toNotify.push(system);
-      }
-    });
+  /**
+   * Get the descendants of an entity, depth-first
+   *
+   * @param {Entity} entity Ancestor entity
+   * @returns {Entity[]}
+   */
+  public getDescendants(entity: Entity): Entity[] {
+    return this.getChildren(entity).flatMap((child) => [child, ...this.getDescendants(child)]);
+  }
 
-    // Notify systems
+  /**
+   * Search for all entities holding a relation of a specific type to a target entity
+   *
+   * @param {number} relationType Relation component type
+   * @param {number|Entity} target Target entity (id)
+   * @returns {Entity[]}
+   */
+  public getRelated(relationType: number, target: number | Entity): Entity[] {
+    const id = typeof target === 'number' ? target : target.id;
+    return [...(this._relations[id]?.[relationType] ?? [])];
+  }
+
+  /**
+   * Get the targets of the relations of a specific type held by an entity
+   *
+   * @param {Entity} entity Entity holding the relations
+   * @param {number} relationType Relation component type
+   * @returns {Entity[]}
+   */
+  public getTargets(entity: Entity, relationType: number): Entity[] {
+    return (entity.components[relationType] ?? [])
+      .map((component) => this.getEntity(component.data))
+      .filter((target): target is Entity => typeof target !== 'undefined');
+  }
+
+  /**
+   * Flag a component as added, storing its data again if its storage row was released, and index it if it is a relation
+   *
+   * @param {Entity} entity Entity the component has been added to
+   * @param {Component} component Component added
+   */
+  private _onComponentAdded(entity: Entity, component: Component): void {
+    component.store();
+    component.universe = this.universe;
+    component.addTick = ++this.universe.tick;
+
+    if ((component.constructor as ComponentClassType<unknown>).relation) {
+      const relations = (this._relations[component.data] ??= {});
+      const sources = (relations[component.type] ??= []);
+      if (!sources.includes(entity)) {
+        sources.push(entity);
+      }
+    }
+  }
+
+  /**
+   * Record the removal of a component, and remove it from the relations index if it is a relation
+   *
+   * @param {Entity} entity Entity the component has been removed from
+   * @param {Component} component Component removed
+   */
+  private _onComponentRemoved(entity: Entity, component: Component): void {
+    this._removedComponents.push({ entity, component, tick: ++this.universe.tick });
+
+    const sources = this._relations[component.data]?.[component.type];
+    if (!sources || !(component.constructor as ComponentClassType<unknown>).relation) {
+      return;
+    }
+
+    // Keep the entity indexed if it holds another relation of the same type to the same target
+    const related = entity.components[component.type]?.some((other) => other.data === component.data);
+    const index = sources.indexOf(entity);
+    if (!related && index >= 0) {
+      sources.splice(index, 1);
+    }
+  }
+
+  /**
+   * Remove the relations targeting a removed entity
+   * Entities holding a cascading relation are removed from this world, others lose their relation
+   *
+   * @param {Entity} target Removed target entity
+   */
+  private _removeRelations(target: Entity): void {
+    const relations = this._relations[target.id];
+    if (!relations) {
+      return;
+    }
+
+    delete this._relations[target.id];
+
+    Object.entries(relations).forEach(([type, sources]) => {
+      sources.forEach((source) => {
+        const components = source.components[Number(type)] ?? [];
+        if (components.some((component) => (component.constructor as ComponentClassType<unknown>).relation?.cascade)) {
+          this.removeEntity(source);
+        } else {
+          components
+            .filter((component) => component.data === target.id)
+            .forEach((component) => source.remove(component));
+        }
+      });
+    });
+  }
+
+  /**
+   * Forget removed components once all systems have run since their removal
+   * Systems which can not run (inactive, in a disabled group, or without `update` and `render`) do not keep removed
+   * components forever, their change tick is kept so that they still see the components added and changed meanwhile
+   */
+  private _pruneRemovedComponents(): void {
+    const activeSystems = this.getActiveSystems();
+    const ticks: number[] = [];
+    this._systemTicks.forEach((tick, system) => {
+      if (activeSystems.includes(system) && this._isGroupEnabled(system.group) && (system.update || system.render)) {
+        ticks.push(tick);
+      }
+    });
+
+    const tick = Math.min(...ticks);
+    this._removedComponents = this._removedComponents.filter((removed) => removed.tick > tick);
+  }
+
+  /**
+   * Get a cached query, creating it from the existing archetypes if needed
+   *
+   * @param {QueryFilter} filter Component types, or query description, to search for
+   * @returns {Query}
+   */
+  private _getQuery(filter: QueryFilter): Query {
+    const key = Query.getKey(filter);
+
+    if (!this._queryCache.hasOwnProperty(key)) {
+      const query = new Query(filter);
+      Object.values(this._archetypes).forEach((archetype) => query.test(archetype));
+      this._queryCache[key] = query;
+    }
+
+    return this._queryCache[key];
+  }
+
+  /**
+   * Get the cached query matching the entities of a system
+   *
+   * @param {System} system
+   * @returns {Query}
+   */
+  private _getSystemQuery(system: System): Query {
+    let query = this._systemQueries.get(system);
+    if (!query) {
+      query = this._getQuery(system.filter);
+      this._systemQueries.set(system, query);
+    }
+    return query;
+  }
+
+  /**
+   * Get an archetype, creating it and registering it to the cached queries if needed
+   *
+   * @param {number[]} types Component types of the archetype
+   * @returns {Archetype}
+   */
+  private _getArchetype(types: number[]): Archetype {
+    const key = Archetype.getKey(types);
+
+    if (!this._archetypes.hasOwnProperty(key)) {
+      const archetype = new Archetype(types);
+      Object.values(this._queryCache).forEach((query) => query.test(archetype));
+      this._archetypes[key] = archetype;
+    }
+
+    return this._archetypes[key];
+  }
+
+  /**
+   * Get the component types currently attached to an entity
+   *
+   * @param {Entity} entity Entity to get the component types from
+   * @returns {number[]}
+   */
+  private _getEntityComponentTypes(entity: Entity): number[] {
+    return Object.keys(entity.components).map((key) => Number.parseInt(key, 10));
+  }
+
+  /**
+   * Move an entity into an archetype
+   *
+   * @param {Entity} entity Entity to move
+   * @param {Archetype} archetype Archetype to move the entity into
+   */
+  private _setEntityArchetype(entity: Entity, archetype: Archetype): void {
+    const previous = this._entityArchetypes[entity.id];
+    if (previous === archetype) {
+      return;
+    }
+
+    previous?.remove(entity);
+    archetype.add(entity);
+    this._entityArchetypes[entity.id] = archetype;
+  }
+
+  /**
+   * Move an entity into a new archetype when its component type set changes
+   *
+   * @param {Entity} entity Updated entity
+   * @param {Component} [added] Component added to the entity
+   * @param {Component} [removed] Component removed from the entity
+   */
+  private _updateEntityArchetype(entity: Entity, added?: Component, removed?: Component): void {
+    const archetype = this._entityArchetypes[entity.id];
+    if (!archetype) {
+      return;
+    }
+
+    // Only the first instance added or the last instance removed changes the component type set
+    let type: number;
+    if (added && !archetype.has(added.type)) {
+      type = added.type;
+    } else if (removed && archetype.has(removed.type) && !entity.components.hasOwnProperty(removed.type)) {
+      type = removed.type;
+    } else {
+      return;
+    }
+
+    let next = archetype.getEdge(type);
+    if (!next) {
+      const types = archetype.has(type) ? archetype.types.filter((t) => t !== type) : [...archetype.types, type];
+      next = this._getArchetype(types);
+      archetype.setEdge(type, next);
+      next.setEdge(type, archetype);
+    }
+
+    this._setEntityArchetype(entity, next);
+  }
+
+  /**
+   * Inject the execution context into the system
+   * A system can exist on several worlds at the same time, ECS ensures that global methods will always reference the
+   * currently running world
+   *
+   * @param {System} system System to inject in this world
+   * @returns {System}
+   */
+  private _inject(system: System): System {
+    system.world = this;
+    system.trigger = this._systemTrigger;
+    return system;
+  }
+
+  /**
+   * Index an entity for a specific system
+   *
+   * @param {Entity} entity Entity to index
+   * @param {System} system System to index
+   */
+  private _indexEntitySystem = (entity: Entity, system: System): void => {
+    const index = this._entitySystems[entity.id].indexOf(system);
+
+    if (!this._systems.includes(system)) {
+      if (index >= 0) {
+        this._entitySystems[entity.id].splice(index, 1);
+        delete this._entitySystemLastUpdate[entity.id][system.id];
+        delete this._entitySystemLastUpdateGame[entity.id][system.id];
+      }
+      return;
+    }
+
+    // Allow a system to receive updates from all entities in this world. -1 = All components
+    const archetype = this._entityArchetypes[entity.id];
+    if (!archetype || !this._getSystemQuery(system).matches(archetype)) {
+      if (index >= 0) {
+        // Inform the system of relationship removal
+        if (system.exit) {
+          this._inject(system);
+          this._profile(system, 'exit', () => system.exit!(entity));
+        }
+
+        this._entitySystems[entity.id].splice(index, 1);
+        delete this._entitySystemLastUpdate[entity.id][system.id];
+        delete this._entitySystemLastUpdateGame[entity.id][system.id];
+      }
+      return;
+    }
+
+    // Entity has all the components this system needs
+    if (index < 0) {
+      this._entitySystems[entity.id].push(system);
+      this._entitySystemLastUpdate[entity.id][system.id] = this._getTime();
+      this._entitySystemLastUpdateGame[entity.id][system.id] = this._gameTime;
+
+      // Informs the system about the new relationship
+      if (system.enter) {
+        this._inject(system);
+        this._profile(system, 'enter', () => system.enter!(entity));
+      }
+    }
+  };
+
+  /**
+   * Index an entity
+   *
+   * @param {Entity} entity Entity to index
+   * @param {System} [system] System to index
+   */
+  private _indexEntity(entity: Entity, system?: System): void {
+    if (!this._entitySystems.hasOwnProperty(entity.id)) {
+      this._entitySystems[entity.id] = [];
+    }
+
+    if (system) {
+      // Index entity for a specific system
+      this._indexEntitySystem(entity, system);
+    } else {
+      // Index the entire entity
+      this._systems.forEach((system) => this._indexEntitySystem(entity, system));
+    }
+  }
+
+  /**
+   * Call the `change` method of the systems in this world when an entity receives or loses components
+   *
+   * @param {Entity} entity Updated entity
+   * @param {Component} [added] Component added to the entity
+   * @param {Component} [removed] Component removed from the entity
+   */
+  private _onEntityUpdate(entity: Entity, added?: Component, removed?: Component): void {
+    const systems = this._entitySystems[entity.id];
+    if (!systems) {
+      return;
+    }
+
+    // Save systems to notify
+    const toNotify: System[] = [];
+
+    systems.forEach((system) => {
+      const needsNotify =
+        system.componentTypes.includes(-1) ||
+        (added && system.componentTypes.includes(added.type)) ||
+        (removed && system.componentTypes.includes(removed.type));
+
+      if (system.change && needsNotify) {
+        toNotify.push(system);
+      }
+    });
+
+    // Notify systems
     toNotify.forEach((system) => {
       this._inject(system);
       const all = system.componentTypes.includes(-1);
@@ -492,20 +1075,232 @@ export default class World {
   }
 
   /**
-   * Call the `update` method of the systems in this world
+   * Timestamp of the last update of this world, in milliseconds
+   */
+  get lastUpdate(): number {
+    return this._lastUpdate;
+  }
+
+  set lastUpdate(time: number) {
+    this._lastUpdate = time;
+  }
+
+  /**
+   * Interpolation factor between the last two simulation states, in the [0, 1) range in fixed-step mode
+   * Always equals 1 when the world is not in fixed-step mode
+   */
+  get alpha(): number {
+    return this.fixedStep > 0 ? this._accumulator / (this.fixedStep * 1000) : 1;
+  }
+
+  /**
+   * Get the time used to limit systems frequency, which is the time of the last update
+   * In fixed-step mode, game time is used so that simulation steps are not affected by real time
+   *
+   * @returns {number}
+   */
+  private _getTime(): number {
+    return this.fixedStep > 0 ? this._gameTime : this._lastUpdate;
+  }
+
+  /**
+   * Call the `update` method of the systems in this world, then the `render` method of the systems
+   *
+   * @param {number} [time] Explicit timestamp of this update, in milliseconds (default is the world clock time)
    */
-  public update(): void {
-    const time = now();
+  public update(time: number = this.clock()): void {
+    this.recorder?.beginFrame(time);
+
+    const elapsed = (time - this._lastUpdate) * this.timeScale;
 
-    this._gameTime += (time - this._lastUpdate) * this.timeScale;
     this._lastUpdate = time;
 
+    this.events.dispatch('preUpdate');
+
+    if (this.fixedStep > 0) {
+      const step = this.fixedStep * 1000;
+
+      this._accumulator += elapsed;
+
+      let steps = 0;
+      while (this._accumulator + STEP_EPSILON >= step && steps < this.maxSteps) {
+        // Snap to zero the remainder left by rounding errors
+        this._accumulator = Math.max(0, this._accumulator - step);
+        this._gameTime += step;
+        this._updateSystems(this._gameTime, this._getScheduledSystems(this._gameTime));
+        steps++;
+      }
+
+      // Drop the time that could not be caught up
+      if (this._accumulator >= step) {
+        this._accumulator %= step;
+      }
+    } else {
+      this._gameTime += elapsed;
+      this._updateSystems(time, this._getScheduledSystems(time));
+    }
+
+    this.events.dispatch('postUpdate');
+    this.commands.flush();
+
+    this._renderSystems(this.getActiveSystems().filter((system) => this._isGroupEnabled(system.group, true)));
+    this.commands.flush();
+    this._pruneRemovedComponents();
+
+    this.events.dispatch('postRender');
+    this.commands.flush();
+
+    this.profiler?.endFrame();
+    this.recorder?.endFrame();
+  }
+
+  /**
+   * Call the `update` method, then the `render` method of the systems of a group and its nested groups
+   * Game time is not advanced, and the group frequency and `manual` flag are ignored
+   *
+   * @param {string} name Name of the group to run
+   * @param {number} [time] Explicit timestamp of this update, in milliseconds (default is the world clock time)
+   */
+  public runGroup(name: string, time: number = this.clock()): void {
+    if (!this._isGroupEnabled(name)) {
+      return;
+    }
+
+    const systems = this.getActiveSystems().filter((system) =>
+      this._getGroupChain(system.group).some((group) => group.name === name)
+    );
+
+    this._updateSystems(this.fixedStep > 0 ? this._gameTime : time, systems);
+    this._renderSystems(systems);
+    this.commands.flush();
+  }
+
+  /**
+   * Add a system group to this world
+   *
+   * @param {SystemGroup} group System group to add to this world
+   */
+  public addGroup(group: SystemGroup): void {
+    this._groups[group.name] = group;
+  }
+
+  /**
+   * Remove a system group from this world
+   * Systems of this group are then updated as if they had no group
+   *
+   * @param {string|SystemGroup} name System group (name) to remove from this world
+   */
+  public removeGroup(name: string | SystemGroup): void {
+    // Handle `name` argument as `SystemGroup`
+    const key = typeof name === 'string' ? name : name.name;
+
+    delete this._groups[key];
+    delete this._groupLastUpdate[key];
+  }
+
+  /**
+   * Get a system group by name
+   *
+   * @param {string} name System group name
+   * @returns {SystemGroup|undefined}
+   */
+  public getGroup(name: string): SystemGroup | undefined {
+    return this._groups[name];
+  }
+
+  /**
+   * Get a group and its ancestors, from the group to the root
+   *
+   * @param {string} [name] Group name
+   * @returns {SystemGroup[]}
+   */
+  private _getGroupChain(name?: string): SystemGroup[] {
+    const chain: SystemGroup[] = [];
+
+    while (typeof name === 'string' && this._groups.hasOwnProperty(name)) {
+      const group = this._groups[name];
+      if (chain.includes(group)) {
+        break;
+      }
+
+      chain.push(group);
+      name = group.parent;
+    }
+
+    return chain;
+  }
+
+  /**
+   * Check if a group and all its ancestors are enabled
+   *
+   * @param {string} [name] Group name
+   * @param {boolean} [auto=false] Also check that no group is `manual`
+   * @returns {boolean}
+   */
+  private _isGroupEnabled(name?: string, auto: boolean = false): boolean {
+    return this._getGroupChain(name).every((group) => group.enabled && !(auto && group.manual));
+  }
+
+  /**
+   * Get the time scale applied to a group by itself and its ancestors
+   *
+   * @param {string} [name] Group name
+   * @returns {number}
+   */
+  private _getGroupTimeScale(name?: string): number {
+    return this._getGroupChain(name).reduce((timeScale, group) => timeScale * group.timeScale, 1);
+  }
+
+  /**
+   * Get the active systems to update, according to their groups being enabled and their groups frequency
+   *
+   * @param {number} time Time used to limit groups frequency
+   * @returns {System[]}
+   */
+  private _getScheduledSystems(time: number): System[] {
+    const scheduled: Record<string, boolean> = {};
+
+    const isScheduled = (group: SystemGroup): boolean => {
+      if (!scheduled.hasOwnProperty(group.name)) {
+        scheduled[group.name] = false;
+
+        if (group.frequency > 0 && this._groupLastUpdate.hasOwnProperty(group.name)) {
+          const interval = 1000 / group.frequency;
+          const elapsed = time - this._groupLastUpdate[group.name];
+          if (elapsed < interval) {
+            return false;
+          }
+
+          // Adjust for interval not being a multiple of RAF's interval (16.7ms)
+          this._groupLastUpdate[group.name] = time - (elapsed % interval);
+        } else {
+          this._groupLastUpdate[group.name] = time;
+        }
+
+        scheduled[group.name] = true;
+      }
+
+      return scheduled[group.name];
+    };
+
+    return this.getActiveSystems().filter(
+      (system) => this._isGroupEnabled(system.group, true) && this._getGroupChain(system.group).every(isScheduled)
+    );
+  }
+
+  /**
+   * Run one update of the systems in this world
+   *
+   * @param {number} time Time used to limit systems frequency
+   * @param {System[]} activeSystems Systems to update
+   */
+  private _updateSystems(time: number, activeSystems: System[]): void {
     // Save systems & entities to update
-    const updated: Record<string, { system: System; delta: number; entities: Entity[] }> = {};
+    const updated: Map<System, { delta: number; entities: Entity[] }> = new Map();
 
     this._entities.forEach((entity) => {
       if (!entity.active) {
-        this.removeEntity(entity);
+        this.commands.removeEntity(entity);
         return;
       }
 
@@ -518,12 +1313,10 @@ export default class World {
       const entityLastUpdatesGame = this._entitySystemLastUpdateGame[entity.id];
       let elapsed, elapsedScaled, interval;
 
-      this.getActiveSystems().forEach((system) => {
-        const id = `${system.id}`;
-
-        if (system.update) {
+      activeSystems.forEach((system) => {
+        if (system.update && systems.includes(system)) {
           // Create a new "update" for current system
-          if (!updated.hasOwnProperty(id)) {
+          if (!updated.has(system)) {
             elapsed = time - entityLastUpdates[system.id];
             elapsedScaled = this._gameTime - entityLastUpdatesGame[system.id];
 
@@ -543,22 +1336,108 @@ export default class World {
             }
 
             // Create current system's "update"
-            updated[id] = { system, delta: elapsedScaled / 1000, entities: [] };
+            updated.set(system, {
+              delta: (elapsedScaled / 1000) * this._getGroupTimeScale(system.group),
+              entities: []
+            });
           }
 
           // Add entity to current system's "update"
-          updated[id].entities.push(entity);
+          updated.get(system)!.entities.push(entity);
         }
       });
     });
 
     // Update systems
-    Object.values(updated).forEach(({ system, delta, entities }) => {
+    let flushed = this.commands.flush() > 0;
+
+    this._systems.forEach((system) => {
+      if (!updated.has(system)) {
+        // Systems without any entity have nothing to catch up with
+        if (activeSystems.includes(system) && this._getSystemQuery(system).size === 0) {
+          this._systemTicks.set(system, this.universe.tick);
+        }
+        return;
+      }
+
+      const delta = updated.get(system)!.delta;
+      let entities = updated.get(system)!.entities;
+
+      // Skip entities which have been removed, or no longer match this system, after a flush
+      // Removed entities are compared by identity, as their id may have been reused by a new entity
+      if (flushed) {
+        entities = entities.filter(
+          (entity) => this._entityIds[entity.id] === entity && this._entitySystems[entity.id]?.includes(system)
+        );
+        if (entities.length < 1) {
+          return;
+        }
+      }
+
       this._inject(system);
-      system.beforeUpdateAll?.(this._gameTime, delta, entities);
-      entities.forEach((entity) => system.update?.(this._gameTime, delta, entity));
-      system.afterUpdateAll?.(this._gameTime, delta, entities);
+      this.profiler?.count(system, entities.length);
+      if (system.beforeUpdateAll) {
+        this._profile(system, 'beforeUpdateAll', () => system.beforeUpdateAll!(this._gameTime, delta, entities));
+      }
+      this._profile(system, 'update', () =>
+        entities.forEach((entity) => system.update?.(this._gameTime, delta, entity))
+      );
+      if (system.afterUpdateAll) {
+        this._profile(system, 'afterUpdateAll', () => system.afterUpdateAll!(this._gameTime, delta, entities));
+      }
+      this._systemTicks.set(system, this.universe.tick);
+
+      if (this.flushMode === 'system' && this.commands.flush() > 0) {
+        flushed = true;
+      }
     });
+
+    this.commands.flush();
+  }
+
+  /**
+   * Call the `render` method of the systems in this world
+   *
+   * @param {System[]} activeSystems Systems to render
+   */
+  private _renderSystems(activeSystems: System[]): void {
+    const alpha = this.alpha;
+
+    activeSystems.forEach((system) => {
+      if (!system.render) {
+        return;
+      }
+
+      const entities = this._getSystemQuery(system)
+        .getEntities()
+        .filter((entity) => entity.active);
+      if (entities.length < 1) {
+        // Systems without any entity have nothing to catch up with
+        this._systemTicks.set(system, this.universe.tick);
+        return;
+      }
+
+      this._inject(system);
+      this._profile(system, 'render', () =>
+        entities.forEach((entity) => system.render?.(this._gameTime, alpha, entity))
+      );
+      this._systemTicks.set(system, this.universe.tick);
+    });
+  }
+
+  /**
+   * Call a function of a system, recording the time spent when this world is profiled
+   *
+   * @param {System} system System the function belongs to
+   * @param {ProfilerPhase} phase Phase of the function
+   * @param {Function} callback Function to call
+   */
+  private _profile(system: System, phase: ProfilerPhase, callback: () => void): void {
+    if (this.profiler) {
+      this.profiler.measure(system, phase, callback);
+    } else {
+      callback();
+    }
   }
 
   /**
@@ -567,6 +1446,114 @@ export default class World {
   public destroy(): void {
     this._entities.forEach((entity) => this.removeEntity(entity));
     this._systems.forEach((system) => this.removeSystem(system));
+    this.events.clear();
+  }
+
+  /**
+   * Create a plain JSON-compatible snapshot of this world entities and their components
+   * Component classes must be registered with a name in the registry
+   *
+   * @param {ComponentRegistry} [registry=this.universe.registry] Registry mapping component classes to names
+   * @returns {WorldSnapshot}
+   */
+  public serialize(registry: ComponentRegistry = this.universe.registry): WorldSnapshot {
+    const entities = this._entities.map((entity): EntitySnapshot => {
+      const components: ComponentSnapshot[] = [];
+
+      Object.values(entity.components).forEach((list) => {
+        list.forEach((component) => {
+          const name = registry.getName(component.type);
+          if (typeof name === 'undefined') {
+            throw new Error(`World.serialize(): Component type ${component.type} is not registered`);
+          }
+
+          components.push({
+            name,
+            version: registry.get(name)!.version,
+            data: structuredClone(component.getData()),
+            attributes: structuredClone(component.attributes)
+          });
+        });
+      });
+
+      return { id: entity.id, generation: entity.generation, active: entity.active, components };
+    });
+
+    return { id: this.id, state: this._state, time: this._gameTime, entities };
+  }
+
+  /**
+   * Replace this world entities with the ones of a snapshot
+   * Systems are kept and notified of the restored entities
+   * Components data of older versions are migrated to the current version of their component class, entities having
+   * a component which could not be migrated are not restored
+   *
+   * @param {WorldSnapshot} snapshot Snapshot to restore
+   * @param {ComponentRegistry} [registry=this.universe.registry] Registry mapping names to component classes
+   * @returns {MigrationFailure[]} Components which could not be migrated, with the id of their entity
+   */
+  public deserialize(
+    snapshot: WorldSnapshot,
+    registry: ComponentRegistry = this.universe.registry
+  ): MigrationFailure[] {
+    // Validate snapshot before altering this world
+    snapshot.entities.forEach(({ id, components }) => {
+      if (this.universe.isAllocated(id) && !this._entityIds.hasOwnProperty(id)) {
+        throw new Error(`World.deserialize(): Entity id ${id} is already allocated to another entity`);
+      }
+
+      components.forEach(({ name }) => {
+        if (!registry.has(name)) {
+          throw new Error(`World.deserialize(): Component "${name}" is not registered`);
+        }
+      });
+    });
+
+    // Migrate components data and create components before altering this world
+    const failures: MigrationFailure[] = [];
+    const entities: Array<{ snapshot: EntitySnapshot; components: Component[] }> = [];
+    snapshot.entities.forEach((entity) => {
+      const components: Component[] = [];
+      const failed = entity.components.some(({ name, version = 0, data, attributes }) => {
+        try {
+          const ComponentClass = registry.get(name)!;
+          const component = new ComponentClass(ComponentClass.migrate(structuredClone(data), version));
+          component.attributes = structuredClone(attributes);
+          components.push(component);
+          return false;
+        } catch (error) {
+          failures.push({
+            id: entity.id,
+            name,
+            version,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          return true;
+        }
+      });
+
+      if (failed) {
+        components.forEach((component) => component.dispose());
+      } else {
+        entities.push({ snapshot: entity, components });
+      }
+    });
+
+    [...this._entities].forEach((entity) => this.removeEntity(entity));
+
+    this._gameTime = snapshot.time;
+    if (snapshot.state !== this._state) {
+      this.setState(snapshot.state);
+    }
+
+    entities.forEach(({ snapshot: { id, generation, active }, components }) => {
+      const entity = this.universe.run(() => new WorldEntity(id, generation));
+      entity.active = active;
+      components.forEach((component) => entity.add(component));
+      this.addEntity(entity);
+    });
+
+    return failures;
   }
 
   /**
@@ -576,7 +1563,139 @@ export default class World {
    * @returns {Entity|undefined}
    */
   public getEntity(id: number): Entity | undefined {
-    return this._entities.find((entity) => entity.id === id);
+    return this._entityIds[id];
+  }
+
+  /**
+   * Get an entity by handle, if it is still alive
+   *
+   * @param {number} handle Entity handle
+   * @returns {Entity|undefined}
+   */
+  public getEntityByHandle(handle: number): Entity | undefined {
+    const entity = this._entityIds[Entity.getId(handle)];
+    return entity?.generation === Entity.getGeneration(handle) ? entity : undefined;
+  }
+
+  /**
+   * Check if an entity is alive in this world
+   * Handles of removed entities are never alive, even when their id is reused by another entity
+   *
+   * @param {number|Entity} handle Entity (handle) to check
+   * @returns {boolean}
+   */
+  public isAlive(handle: number | Entity): boolean {
+    if (typeof handle === 'number') {
+      return typeof this.getEntityByHandle(handle) !== 'undefined';
+    }
+    return this._entityIds[handle.id] === handle;
+  }
+
+  /**
+   * Get a read-only description of this world, its entities and its systems
+   * Components data and attributes are copied, so that altering them has no effect on this world, values which can not
+   * be cloned (such as functions) being kept as is
+   *
+   * @returns {WorldInspection}
+   */
+  public inspect(): WorldInspection {
+    return {
+      id: this.id,
+      state: this._state,
+      time: this._gameTime,
+      timeScale: this.timeScale,
+      entities: this._entities.map((entity) => this.inspectEntity(entity)!),
+      systems: this._systems.map((system) => this.inspectSystem(system)!)
+    };
+  }
+
+  /**
+   * Get a read-only description of an entity of this world, its components and the systems acting on it
+   *
+   * @param {number|Entity} id Entity (id) to inspect
+   * @returns {EntityInspection|undefined} Description of the entity, undefined if it is not in this world
+   */
+  public inspectEntity(id: number | Entity): EntityInspection | undefined {
+    const entity = typeof id === 'number' ? this.getEntity(id) : id;
+    if (!entity || this._entityIds[entity.id] !== entity) {
+      return;
+    }
+
+    const components: ComponentInspection[] = [];
+    Object.values(entity.components).forEach((list) => {
+      list.forEach((component) => {
+        components.push({
+          type: component.type,
+          name: this.universe.registry.getName(component.type),
+          data: copy(component.getData()),
+          attributes: copy(component.attributes)
+        });
+      });
+    });
+
+    return {
+      id: entity.id,
+      generation: entity.generation,
+      handle: entity.handle,
+      active: entity.active,
+      components,
+      systems: (this._entitySystems[entity.id] ?? []).map((system) => system.id)
+    };
+  }
+
+  /**
+   * Get a read-only description of a system of this world and the entities it currently matches
+   *
+   * @param {number|System} id System (id) to inspect
+   * @returns {SystemInspection|undefined} Description of the system, undefined if it is not in this world
+   */
+  public inspectSystem(id: number | System): SystemInspection | undefined {
+    const system = typeof id === 'number' ? this.getSystem(id) : id;
+    if (!system || !this._systems.includes(system)) {
+      return;
+    }
+
+    return {
+      id: system.id,
+      name: system.constructor.name,
+      componentTypes: [...system.componentTypes],
+      states: [...system.states],
+      frequency: system.frequency,
+      priority: system.priority,
+      group: system.group,
+      active: system.states.includes(ECSState.Any) || system.states.includes(this._state),
+      entities: this._getSystemQuery(system)
+        .getEntities()
+        .map((entity) => entity.id)
+    };
+  }
+
+  /**
+   * Subscribe to the structural changes of this world: entities, components and systems added or removed, and state
+   * changes
+   *
+   * @param {StructuralChangeListener} listener Function called with each structural change
+   * @returns {Function} Unsubscribe function
+   */
+  public onStructuralChange(listener: StructuralChangeListener): () => void {
+    this._structuralChangeListeners.push(listener);
+
+    return () => {
+      const index = this._structuralChangeListeners.indexOf(listener);
+      if (index >= 0) {
+        this._structuralChangeListeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Notify the listeners of a structural change of this world
+   *
+   * @param {StructuralChange} change Structural change
+   */
+  private _notifyStructuralChange(change: StructuralChange): void {
+    // Copy listeners so that unsubscribing while notifying is safe
+    [...this._structuralChangeListeners].forEach((listener) => listener(change));
   }
 
   /**
@@ -589,6 +1708,23 @@ export default class World {
     return this._systems.find((system) => system.id === id);
   }
 
+  /**
+   * Get all systems, in resolved update order
+   * Systems are sorted according to their `before` and `after` dependencies, then by descending `priority`
+   *
+   * @returns {System[]}
+   */
+  public getSystemOrder(): System[] {
+    return [...this._systems];
+  }
+
+  /**
+   * Re-sort systems after a change of their `priority`, `before` or `after` properties
+   */
+  public sortSystems(): void {
+    this._systems = sortSystems(this._systems);
+  }
+
   /**
    * Get all active systems
    *
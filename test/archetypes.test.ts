@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, Entity, System, World } from '../src';
+
+const PositionComponent = Component.register<number>();
+const VelocityComponent = Component.register<number>();
+
+class TestEntity extends Entity {}
+
+function spawn(world: World, ...components: Component[]): Entity {
+  const entity = new TestEntity();
+  components.forEach((component) => entity.add(component));
+  world.addEntity(entity);
+  return entity;
+}
+
+describe('archetypes', () => {
+  it('keep cached queries up to date', () => {
+    const world = new World('cached', [], () => 0);
+    expect(world.queryEntitiesByComponent(VelocityComponent.type)).toEqual([]);
+
+    const moving = spawn(world, new PositionComponent(0), new VelocityComponent(1));
+    const still = spawn(world, new PositionComponent(0));
+
+    expect(world.query([PositionComponent.type, VelocityComponent.type]).map((entity) => entity)).toEqual([moving]);
+    expect(world.queryEntitiesByComponent(VelocityComponent.type)).toEqual([moving]);
+    expect(world.queryEntitiesByComponent(PositionComponent.type)).toEqual(expect.arrayContaining([moving, still]));
+  });
+
+  it('move entities when their components change', () => {
+    const world = new World('moved', [], () => 0);
+    const entity = spawn(world, new PositionComponent(0));
+    const velocity = new VelocityComponent(1);
+
+    entity.add(velocity);
+    expect(world.queryEntitiesByComponent(VelocityComponent.type)).toEqual([entity]);
+
+    entity.remove(velocity);
+    expect(world.queryEntitiesByComponent(VelocityComponent.type)).toEqual([]);
+    expect(world.queryEntitiesByComponent(PositionComponent.type)).toEqual([entity]);
+
+    world.removeEntity(entity);
+    expect(world.queryEntitiesByComponent(PositionComponent.type)).toEqual([]);
+  });
+
+  it('feed systems with the entities matching their components', () => {
+    const world = new World('systems', [], () => 0);
+    const updated: Entity[] = [];
+    world.addSystem(
+      new (class extends System {
+        constructor() {
+          super([PositionComponent.type, VelocityComponent.type]);
+        }
+
+        update(_time: number, _delta: number, entity: Entity): void {
+          updated.push(entity);
+        }
+      })()
+    );
+
+    const moving = spawn(world, new PositionComponent(0), new VelocityComponent(1));
+    spawn(world, new PositionComponent(0));
+    world.update(16);
+
+    expect(updated).toEqual([moving]);
+  });
+});
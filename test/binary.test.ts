@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, ComponentRegistry, World, decodeSnapshot, encodeSnapshot } from '../src';
+import type { Schema } from '../src';
+
+type Body = {
+  mass: number;
+  level: number;
+  ratio: number;
+  label: string;
+  sleeping: boolean;
+  velocity: number[];
+  target: number | null;
+  path: number[];
+};
+
+const BodyComponent = Component.register<Body>('Body', {
+  schema: {
+    mass: { type: 'number' },
+    level: { type: 'number', format: 'uint8' },
+    ratio: { type: 'number', format: 'float32' },
+    label: { type: 'string' },
+    sleeping: { type: 'boolean' },
+    velocity: { type: 'vector3' },
+    target: { type: 'entity' },
+    path: { type: 'array', items: { type: 'number', format: 'int16' } }
+  }
+});
+const TagsComponent = Component.register<string[]>('Tags');
+
+function createWorld(): World {
+  const world = new World('binary', [], () => 0);
+
+  const first = world.acquireEntity();
+  first.add(
+    new BodyComponent({
+      mass: 0.1,
+      level: 3,
+      ratio: 0.5,
+      label: 'first',
+      sleeping: false,
+      velocity: [1, -2, 3.25],
+      target: null,
+      path: [-1, 0, 1]
+    })
+  );
+  first.add(new TagsComponent(['player', 'hero']));
+  world.addEntity(first);
+
+  const second = world.acquireEntity();
+  const body = new BodyComponent({
+    mass: 2,
+    level: 255,
+    ratio: 0.25,
+    label: 'ünïcode ✓',
+    sleeping: true,
+    velocity: [0, 0, 0],
+    target: first.id,
+    path: []
+  });
+  body.attributes.layer = 2;
+  second.add(body);
+  world.addEntity(second);
+
+  return world;
+}
+
+function createRegistry(schema: Schema): ComponentRegistry {
+  const registry = new ComponentRegistry();
+  registry.register(Component.register(undefined, { schema }), 'Stats');
+  return registry;
+}
+
+describe('binary snapshots', () => {
+  it('decode to the snapshot of the encoded world', () => {
+    const world = createWorld();
+
+    expect(decodeSnapshot(encodeSnapshot(world))).toEqual(world.serialize());
+  });
+
+  it('are smaller than JSON snapshots', () => {
+    const world = createWorld();
+
+    expect(encodeSnapshot(world).byteLength).toBeLessThan(JSON.stringify(world.serialize()).length);
+  });
+
+  it('store numbers in the format of their field', () => {
+    const world = new World('formats', [], () => 0);
+    const entity = world.acquireEntity();
+    const body = new BodyComponent({
+      mass: 0,
+      level: 0,
+      ratio: 0.1,
+      label: '',
+      sleeping: false,
+      velocity: [0, 0, 0],
+      target: null,
+      path: []
+    });
+    entity.add(body);
+    world.addEntity(entity);
+
+    const [component] = decodeSnapshot(encodeSnapshot(world)).entities[0].components;
+    expect((component.data as Body).ratio).toBe(Math.fround(0.1));
+  });
+
+  it('decode data encoded with an older schema of the same version', () => {
+    const snapshot = {
+      id: 'stats',
+      state: '',
+      time: 0,
+      entities: [{ id: 1, active: true, components: [{ name: 'Stats', data: { hp: 10, xp: 4 }, attributes: {} }] }]
+    };
+    const bytes = encodeSnapshot(snapshot, createRegistry({ hp: { type: 'number' }, xp: { type: 'number' } }));
+
+    const registry = createRegistry({ hp: { type: 'number' }, mana: { type: 'number', default: 5 } });
+    expect(decodeSnapshot(bytes, registry).entities[0].components[0].data).toEqual({ hp: 10, mana: 5 });
+  });
+
+  it('reject data which is not an encoded snapshot', () => {
+    expect(() => decodeSnapshot(new TextEncoder().encode('{"id":"json"}'))).toThrow('is not an encoded snapshot');
+  });
+
+  it('reject data encoded in another format version', () => {
+    const bytes = encodeSnapshot(createWorld().serialize());
+    bytes[4] = 2;
+
+    expect(() => decodeSnapshot(bytes)).toThrow('Format version 2 is not supported');
+  });
+});
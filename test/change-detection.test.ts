@@ -0,0 +1,262 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, Entity, System, Universe, World, checksum } from '../src';
+
+type Position = { x: number; y: number };
+
+const TrackedComponent = Component.register<Position>('Tracked', { track: true });
+
+class TrackedEntity extends Entity {}
+
+describe('tracked components', () => {
+  it('flags components as changed when a property is set', () => {
+    const component = new TrackedComponent({ x: 0, y: 0 });
+    const tick = Component.tick;
+
+    component.data.x = 1;
+
+    expect(component.changeTick).toBeGreaterThan(tick);
+  });
+
+  it('flags components as changed when a nested property is set', () => {
+    const NestedComponent = Component.register<{ body: { position: Position }; path: Position[] }>('Nested', {
+      track: true
+    });
+    const component = new NestedComponent({ body: { position: { x: 0, y: 0 } }, path: [] });
+
+    let tick = Component.tick;
+    component.data.body.position.x = 1;
+    expect(component.changeTick).toBeGreaterThan(tick);
+
+    tick = Component.tick;
+    component.data.path.push({ x: 1, y: 1 });
+    expect(component.changeTick).toBeGreaterThan(tick);
+
+    tick = Component.tick;
+    component.data.path[0].y = 2;
+    expect(component.changeTick).toBeGreaterThan(tick);
+
+    component.data.body = { position: component.data.path[0] };
+    expect(structuredClone(component.getData())).toEqual({
+      body: { position: { x: 1, y: 2 } },
+      path: [{ x: 1, y: 2 }]
+    });
+  });
+
+  it('returns plain data which can be cloned', () => {
+    const component = new TrackedComponent({ x: 1, y: 2 });
+
+    expect(structuredClone(component.getData())).toEqual({ x: 1, y: 2 });
+    expect(component.clone().data).toEqual({ x: 1, y: 2 });
+  });
+
+  it('serializes worlds holding tracked components', () => {
+    const world = new World('tracked', [], () => 0);
+    const entity = world.acquireEntity();
+    entity.add(new TrackedComponent({ x: 1, y: 2 }));
+    world.addEntity(entity);
+
+    const snapshot = world.serialize();
+    expect(snapshot.entities[0].components[0].data).toEqual({ x: 1, y: 2 });
+    expect(world.inspect().entities[0].components[0].data).toEqual({ x: 1, y: 2 });
+    expect(checksum(world)).toBe(checksum(snapshot));
+
+    world.removeEntity(entity);
+    const restored = new World('restored', [], () => 0);
+    restored.deserialize(snapshot);
+    expect(checksum(restored)).toBe(checksum(snapshot));
+  });
+});
+
+describe('change queries', () => {
+  /**
+   * System recording the entities added, changed and removed since its previous update
+   */
+  class ChangeSystem extends System {
+    public added: number[][] = [];
+    public changed: number[][] = [];
+    public removed: number[][] = [];
+
+    constructor() {
+      super([TrackedComponent.type]);
+    }
+
+    update(): void {}
+
+    afterUpdateAll(): void {
+      const ids = (entities: Entity[]) => entities.map((entity) => entity.id);
+      this.added.push(ids(this.queryAdded(TrackedComponent.type)));
+      this.changed.push(ids(this.queryChanged(TrackedComponent.type)));
+      this.removed.push(ids(this.queryRemoved(TrackedComponent.type)));
+    }
+  }
+
+  function spawn(world: World): Entity {
+    const entity = new TrackedEntity();
+    entity.add(new TrackedComponent({ x: 0, y: 0 }));
+    world.addEntity(entity);
+    return entity;
+  }
+
+  it('report the entities added, changed and removed since the previous update of a system', () => {
+    const world = new World('changes', [], () => 0);
+    const system = new ChangeSystem();
+    world.addSystem(system);
+
+    const a = spawn(world);
+    world.update(16);
+
+    const b = spawn(world);
+    a.components[TrackedComponent.type][0].data.x = 1;
+    world.update(32);
+
+    world.removeEntity(b);
+    world.update(48);
+
+    world.update(64);
+
+    expect(system.added).toEqual([[a.id], [b.id], [], []]);
+    expect(system.changed).toEqual([[a.id], [a.id, b.id], [], []]);
+    expect(system.removed).toEqual([[], [], [b.id], []]);
+  });
+});
+
+describe('removed components', () => {
+  const HealthComponent = Component.register<number>('Health');
+
+  class ExitSystem extends System {
+    public exited: Entity[] = [];
+
+    constructor(states?: string[]) {
+      super([HealthComponent.type], states);
+    }
+
+    exit(entity: Entity): void {
+      this.exited.push(entity);
+    }
+  }
+
+  class RemovedSystem extends System {
+    public removed: Entity[] = [];
+
+    constructor() {
+      super([HealthComponent.type]);
+    }
+
+    update(): void {}
+
+    afterUpdateAll(): void {
+      this.removed.push(...this.queryRemoved(HealthComponent.type));
+    }
+  }
+
+  function spawnAndRemove(world: World, count: number): void {
+    for (let i = 0; i < count; i++) {
+      const entity = world.acquireEntity();
+      entity.add(new HealthComponent(i));
+      world.addEntity(entity);
+      world.removeEntity(entity);
+    }
+  }
+
+  it('are reported to systems which ran before their removal', () => {
+    const world = new World('removed', [], () => 0);
+    const system = new RemovedSystem();
+    const entity = world.acquireEntity();
+    entity.add(new HealthComponent(1));
+    world.addEntity(entity);
+    world.addSystem(system);
+    world.update(16);
+
+    const keep = world.acquireEntity();
+    keep.add(new HealthComponent(2));
+    world.addEntity(keep);
+    world.removeEntity(entity);
+    world.update(32);
+
+    expect(system.removed).toEqual([entity]);
+  });
+
+  it('are forgotten when systems only define enter or exit', () => {
+    const world = new World('exit', [], () => 0);
+    const keep = world.acquireEntity();
+    keep.add(new HealthComponent(0));
+    world.addEntity(keep);
+    world.addSystem(new ExitSystem());
+
+    spawnAndRemove(world, 100);
+    world.update(16);
+
+    expect(world.queryRemoved(HealthComponent.type, 0)).toEqual([]);
+  });
+
+  it('are forgotten when systems are inactive', () => {
+    const world = new World('inactive', [], () => 0);
+    const keep = world.acquireEntity();
+    keep.add(new HealthComponent(0));
+    world.addEntity(keep);
+    world.addSystem(new ExitSystem(['paused']));
+    world.addSystem(new RemovedSystem());
+
+    spawnAndRemove(world, 100);
+    world.update(16);
+
+    expect(world.queryRemoved(HealthComponent.type, 0)).toEqual([]);
+  });
+
+  it('do not hide the components added while systems were inactive', () => {
+    class AddedSystem extends System {
+      public added: Entity[] = [];
+
+      constructor() {
+        super([HealthComponent.type], ['running']);
+      }
+
+      update(): void {}
+
+      afterUpdateAll(): void {
+        this.added.push(...this.queryAdded(HealthComponent.type));
+      }
+    }
+
+    const world = new World('resumed', [], () => 0);
+    const system = new AddedSystem();
+    world.addSystem(system);
+    world.setState('running');
+    world.update(16);
+
+    world.setState('paused');
+    const entity = world.acquireEntity();
+    entity.add(new HealthComponent(1));
+    world.addEntity(entity);
+    spawnAndRemove(world, 10);
+    world.update(32);
+    world.update(48);
+
+    world.setState('running');
+    world.update(64);
+
+    expect(system.added).toEqual([entity]);
+  });
+});
+
+describe('change ticks', () => {
+  it('are counted per universe', () => {
+    const universe = new Universe();
+    const world = universe.run(() => new World('isolated', [], () => 0));
+    const IsolatedComponent = universe.run(() => Component.register<Position>('Tracked', { track: true }));
+    const tick = Component.tick;
+
+    const entity = world.acquireEntity();
+    const component = new IsolatedComponent({ x: 0, y: 0 });
+    entity.add(component);
+    world.addEntity(entity);
+    component.data.x = 1;
+    world.removeEntity(entity);
+
+    expect(component.universe).toBe(universe);
+    expect(universe.tick).toBe(component.changeTick + 1);
+    expect(universe.run(() => Component.tick)).toBe(universe.tick);
+    expect(Component.tick).toBe(tick);
+  });
+});
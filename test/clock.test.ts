@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, Entity, System, World } from '../src';
+
+const TickComponent = Component.register<number>();
+
+/**
+ * System recording the time and delta of each update
+ */
+class TimeSystem extends System {
+  public updates: Array<[number, number]> = [];
+
+  constructor(frequency: number = 0) {
+    super([TickComponent.type], frequency);
+  }
+
+  update(time: number, delta: number): void {
+    this.updates.push([time, delta]);
+  }
+}
+
+class TickEntity extends Entity {}
+
+function createWorld(clock: () => number, system: System): World {
+  const world = new World('clock', [], clock);
+  const entity = new TickEntity();
+  entity.add(new TickComponent(0));
+  world.addEntity(entity);
+  world.addSystem(system);
+  return world;
+}
+
+describe('clocks', () => {
+  it('drive updates without explicit timestamps', () => {
+    let time = 1000;
+    const system = new TimeSystem();
+    const world = createWorld(() => time, system);
+
+    time += 16;
+    world.update();
+    time += 20;
+    world.update();
+
+    expect(world.lastUpdate).toBe(1036);
+    expect(system.updates).toEqual([
+      [16, 0.016],
+      [36, 0.02]
+    ]);
+  });
+
+  it('are overridden by explicit timestamps', () => {
+    const system = new TimeSystem();
+    const world = createWorld(() => 0, system);
+
+    world.update(50);
+    world.update(100);
+
+    expect(system.updates).toEqual([
+      [50, 0.05],
+      [100, 0.05]
+    ]);
+  });
+
+  it('are scaled by the world time scale', () => {
+    let time = 0;
+    const system = new TimeSystem();
+    const world = createWorld(() => time, system);
+    world.timeScale = 0.5;
+
+    time = 100;
+    world.update();
+
+    expect(system.updates).toEqual([[50, 0.05]]);
+  });
+
+  it('limit system frequencies', () => {
+    let time = 0;
+    const system = new TimeSystem(10);
+    const world = createWorld(() => time, system);
+
+    [50, 100, 150, 200].forEach((value) => {
+      time = value;
+      world.update();
+    });
+
+    expect(system.updates.map(([updateTime]) => updateTime)).toEqual([100, 200]);
+  });
+});
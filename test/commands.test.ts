@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, Entity, System, World } from '../src';
+
+const UnitComponent = Component.register<number>();
+const TargetComponent = Component.register<number>();
+
+/**
+ * System removing every entity it updates through the command buffer
+ */
+class KillSystem extends System {
+  public updated: Entity[] = [];
+
+  constructor() {
+    super([UnitComponent.type]);
+  }
+
+  update(_time: number, _delta: number, entity: Entity): void {
+    this.updated.push(entity);
+    this.world.commands.removeEntity(entity);
+  }
+}
+
+/**
+ * System recording the entities it updates
+ */
+class WatchSystem extends System {
+  public updated: Entity[] = [];
+
+  constructor() {
+    super([UnitComponent.type]);
+  }
+
+  update(_time: number, _delta: number, entity: Entity): void {
+    this.updated.push(entity);
+  }
+}
+
+class UnitEntity extends Entity {}
+
+function createWorld(count: number): World {
+  const world = new World('commands', [], () => 0);
+  for (let i = 0; i < count; i++) {
+    const entity = new UnitEntity();
+    entity.add(new UnitComponent(i));
+    world.addEntity(entity);
+  }
+  return world;
+}
+
+describe('command buffer', () => {
+  it('defers structural changes while a system iterates', () => {
+    const world = createWorld(3);
+    const kill = new KillSystem();
+    world.addSystem(kill);
+
+    world.update(16);
+
+    expect(kill.updated).toHaveLength(3);
+    expect(world.queryEntitiesByComponent(UnitComponent.type)).toEqual([]);
+    expect(world.commands.size).toBe(0);
+  });
+
+  it('applies commands after each system when flushing per system', () => {
+    const world = createWorld(3);
+    const kill = new KillSystem();
+    const watch = new WatchSystem();
+    world.addSystem(kill);
+    world.addSystem(watch);
+
+    world.update(16);
+
+    expect(watch.updated).toEqual([]);
+  });
+
+  it('applies commands at the end of the frame when flushing per frame', () => {
+    const world = createWorld(3);
+    const kill = new KillSystem();
+    const watch = new WatchSystem();
+    world.flushMode = 'frame';
+    world.addSystem(kill);
+    world.addSystem(watch);
+
+    world.update(16);
+
+    expect(watch.updated).toHaveLength(3);
+    expect(world.queryEntitiesByComponent(UnitComponent.type)).toEqual([]);
+  });
+
+  it('applies commands in recording order', () => {
+    const world = createWorld(0);
+    const entity = world.commands.createEntity([new UnitComponent(0)]);
+    const target = new TargetComponent(1);
+    world.commands.add(entity, target);
+    world.commands.remove(entity, target);
+
+    expect(world.getEntity(entity.id)).toBeUndefined();
+    expect(world.commands.flush()).toBe(3);
+    expect(world.getEntity(entity.id)).toBe(entity);
+    expect(entity.components[UnitComponent.type]).toHaveLength(1);
+    expect(entity.components[TargetComponent.type] ?? []).toHaveLength(0);
+  });
+
+  it('ignores commands targeting removed entities', () => {
+    const world = createWorld(1);
+    const [entity] = world.queryEntitiesByComponent(UnitComponent.type);
+    world.commands.removeEntity(entity);
+    world.commands.add(entity, new TargetComponent(1));
+    world.commands.removeEntity(entity);
+
+    expect(world.commands.flush()).toBe(3);
+    expect(world.getEntity(entity.id)).toBeUndefined();
+    expect(entity.components[TargetComponent.type] ?? []).toHaveLength(0);
+  });
+
+  it('applies commands queued while flushing in the same flush', () => {
+    const world = createWorld(0);
+    const spawned: Entity[] = [];
+    world.addSystem(
+      new (class extends System {
+        constructor() {
+          super([UnitComponent.type]);
+        }
+
+        enter(entity: Entity): void {
+          if (entity.components[UnitComponent.type][0].data === 0) {
+            spawned.push(this.world.commands.createEntity([new UnitComponent(1)]));
+          }
+        }
+      })()
+    );
+
+    world.commands.createEntity([new UnitComponent(0)]);
+
+    expect(world.commands.flush()).toBe(2);
+    expect(world.getEntity(spawned[0].id)).toBe(spawned[0]);
+    expect(world.commands.size).toBe(0);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, Universe, World, checksum, diff } from '../src';
+
+type Position = { x: number; y: number; path: number[] };
+
+// Pinned types, so that queries match the components of every universe
+const registerComponents = () => ({
+  PositionComponent: Component.register<Position>('Position', { type: 100 }),
+  TagComponent: Component.register<string>('Tag', { type: 101 })
+});
+
+const { PositionComponent, TagComponent } = registerComponents();
+
+function createWorlds(): [World, World] {
+  const world = new World('a', [], () => 0);
+  [1, 2].forEach((x) => {
+    const entity = world.acquireEntity();
+    entity.add(new PositionComponent({ x, y: 0, path: [x] }));
+    entity.add(new TagComponent(`tag${x}`));
+    world.addEntity(entity);
+  });
+
+  // Entity ids can not be shared by the worlds of a universe
+  const universe = new Universe();
+  universe.run(registerComponents);
+  const copy = new World('b', [], () => 0, universe);
+  copy.deserialize(world.serialize());
+  return [world, copy];
+}
+
+describe('checksums', () => {
+  it('are equal for worlds holding the same data', () => {
+    const [world, copy] = createWorlds();
+
+    expect(checksum(copy)).toBe(checksum(world));
+    expect(checksum(world)).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  it('ignore the insertion order of entities, components and keys', () => {
+    const [world] = createWorlds();
+    const snapshot = world.serialize();
+    const shuffled = {
+      ...snapshot,
+      entities: [...snapshot.entities].reverse().map((entity) => ({
+        ...entity,
+        components: [...entity.components]
+          .reverse()
+          .map((component) => ({ ...component, data: JSON.parse(JSON.stringify(component.data, ['y', 'path', 'x'])) }))
+      }))
+    };
+
+    expect(checksum(shuffled)).toBe(checksum(world));
+  });
+
+  it('change when data change', () => {
+    const [world, copy] = createWorlds();
+    copy.queryEntitiesByComponent(PositionComponent.type)[0].components[PositionComponent.type][0].data.y = 1;
+
+    expect(checksum(copy)).not.toBe(checksum(world));
+  });
+
+  it('identify components without name by their type', () => {
+    const [world, copy] = createWorlds();
+    const UnnamedComponent = Component.register<number>(undefined, { type: 102 });
+    world.queryEntitiesByComponent(PositionComponent.type)[0].add(new UnnamedComponent(1));
+
+    expect(checksum(world)).not.toBe(checksum(copy));
+  });
+});
+
+describe('diffs', () => {
+  it('are empty for worlds holding the same data', () => {
+    const [world, copy] = createWorlds();
+
+    expect(diff(world, copy)).toEqual({ added: [], removed: [], changed: [] });
+  });
+
+  it('report added and removed entities and components, and changed fields', () => {
+    const [world, copy] = createWorlds();
+    const [first, second] = copy.queryEntitiesByComponent(PositionComponent.type);
+    const position = first.components[PositionComponent.type][0];
+    position.data.x = 5;
+    position.data.path.push(6);
+    first.remove(first.components[TagComponent.type][0]);
+    const added = copy.acquireEntity();
+    copy.addEntity(added);
+    copy.removeEntity(second);
+
+    expect(diff(world, copy)).toEqual({
+      added: [added.id],
+      removed: [second.id],
+      changed: [
+        {
+          id: first.id,
+          added: [],
+          removed: ['Tag'],
+          changed: [
+            {
+              name: 'Position',
+              index: 0,
+              fields: [
+                { path: 'x', a: 1, b: 5 },
+                { path: 'path.1', a: undefined, b: 6 }
+              ]
+            }
+          ]
+        }
+      ]
+    });
+  });
+
+  it('report components without name by their type', () => {
+    const [world, copy] = createWorlds();
+    const UnnamedComponent = copy.universe.run(() => Component.register<number>(undefined, { type: 103 }));
+    const entity = copy.queryEntitiesByComponent(PositionComponent.type)[0];
+    entity.add(new UnnamedComponent(1));
+
+    expect(diff(world, copy).changed).toEqual([{ id: entity.id, added: ['103'], removed: [], changed: [] }]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, Entity, EventBus, System, World } from '../src';
+
+const HealthComponent = Component.register<number>('Health');
+
+const Damage = EventBus.define<{ amount: number }>('damage');
+const Tick = EventBus.define<string>('tick');
+
+class HealthEntity extends Entity {}
+
+describe('event bus', () => {
+  it('delivers emitted events immediately, until unsubscribed', () => {
+    const bus = new EventBus();
+    const received: number[] = [];
+    const unsubscribe = bus.on(Damage, ({ amount }) => received.push(amount));
+
+    bus.emit(Damage, { amount: 1 });
+    unsubscribe();
+    bus.emit(Damage, { amount: 2 });
+
+    expect(received).toEqual([1]);
+  });
+
+  it('delivers events to one-time handlers once', () => {
+    const bus = new EventBus();
+    const received: number[] = [];
+    bus.once(Damage, ({ amount }) => received.push(amount));
+
+    bus.emit(Damage, { amount: 1 });
+    bus.emit(Damage, { amount: 2 });
+
+    expect(received).toEqual([1]);
+  });
+
+  it('delivers queued events at their phase, in emission order', () => {
+    const bus = new EventBus();
+    const received: number[] = [];
+    bus.on(Damage, ({ amount }) => {
+      received.push(amount);
+      if (amount === 1) {
+        bus.enqueue(Damage, { amount: 4 });
+      }
+    });
+
+    bus.enqueue(Damage, { amount: 1 });
+    bus.enqueue(Damage, { amount: 2 }, 'postRender');
+    bus.enqueue(Damage, { amount: 3 });
+
+    expect(bus.dispatch('postUpdate')).toBe(2);
+    expect(received).toEqual([1, 3]);
+    expect(bus.size).toBe(2);
+
+    bus.dispatch('postRender');
+    bus.dispatch('postUpdate');
+    expect(received).toEqual([1, 3, 2, 4]);
+  });
+});
+
+describe('world events', () => {
+  const log: string[] = [];
+
+  class HealthSystem extends System {
+    public damaged: Array<[number, number[]]> = [];
+
+    constructor() {
+      super([HealthComponent.type]);
+      this.addListener(Damage, ({ amount }, entities) => {
+        this.damaged.push([amount, entities.map((entity: Entity) => entity.id)]);
+      });
+    }
+
+    update(): void {
+      log.push('update');
+      this.world.events.enqueue(Tick, 'postUpdate');
+      this.world.events.enqueue(Tick, 'postRender', 'postRender');
+    }
+  }
+
+  it('deliver queued events at the phases of the world update', () => {
+    const world = new World('events', [], () => 0);
+    const entity = new HealthEntity();
+    entity.add(new HealthComponent(10));
+    world.addEntity(entity);
+    world.addSystem(new HealthSystem());
+    world.events.on(Tick, (phase) => log.push(phase));
+    world.events.enqueue(Tick, 'preUpdate', 'preUpdate');
+
+    world.update(16);
+
+    expect(log).toEqual(['preUpdate', 'update', 'postUpdate', 'postRender']);
+  });
+
+  it('notify the systems listening to them with their entities', () => {
+    const world = new World('listeners', [], () => 0);
+    const entity = new HealthEntity();
+    entity.add(new HealthComponent(10));
+    world.addEntity(entity);
+    const system = new HealthSystem();
+    world.addSystem(system);
+
+    world.events.emit(Damage, { amount: 5 });
+    system.trigger!(Damage, { amount: 3 });
+
+    expect(system.damaged).toEqual([
+      [5, [entity.id]],
+      [3, [entity.id]]
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, Entity, System, World } from '../src';
+
+const BodyComponent = Component.register<number>();
+
+class BodyEntity extends Entity {}
+
+class StepSystem extends System {
+  public steps: number[] = [];
+
+  constructor() {
+    super([BodyComponent.type]);
+  }
+
+  update(time: number): void {
+    this.steps.push(time);
+  }
+}
+
+function createWorld(fixedStep: number): [World, StepSystem] {
+  const system = new StepSystem();
+  const world = new World('fixed', [system], () => 0);
+  world.fixedStep = fixedStep;
+
+  const entity = new BodyEntity();
+  entity.add(new BodyComponent(0));
+  world.addEntity(entity);
+
+  return [world, system];
+}
+
+describe('fixed time step', () => {
+  it('runs as many steps as fit in the elapsed time, keeping the remainder as alpha', () => {
+    const [world, system] = createWorld(0.01);
+
+    world.update(25);
+    expect(system.steps).toEqual([10, 20]);
+    expect(world.alpha).toBeCloseTo(0.5);
+
+    world.update(30);
+    expect(system.steps).toEqual([10, 20, 30]);
+    expect(world.alpha).toBeCloseTo(0);
+  });
+
+  it('does not accumulate rounding errors when frames match the step', () => {
+    const [world, system] = createWorld(1 / 60);
+
+    for (let frame = 1; frame <= 600; frame++) {
+      world.update((frame * 1000) / 60);
+      expect(system.steps).toHaveLength(frame);
+      expect(world.alpha).toBeCloseTo(0, 6);
+    }
+  });
+
+  it('drops the time which could not be caught up', () => {
+    const [world, system] = createWorld(0.01);
+    world.maxSteps = 3;
+
+    world.update(1005);
+
+    expect(system.steps).toEqual([10, 20, 30]);
+    expect(world.alpha).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, Entity, System, SystemGroup, World } from '../src';
+
+const TickComponent = Component.register<number>();
+
+/**
+ * System recording the delta of each update
+ */
+class DeltaSystem extends System {
+  public deltas: number[] = [];
+  public renders: number = 0;
+
+  constructor(group?: string) {
+    super([TickComponent.type]);
+    this.group = group;
+  }
+
+  update(_time: number, delta: number): void {
+    this.deltas.push(delta);
+  }
+
+  render(): void {
+    this.renders++;
+  }
+}
+
+class TickEntity extends Entity {}
+
+function createWorld(...systems: System[]): World {
+  const world = new World('groups', [], () => 0);
+  const entity = new TickEntity();
+  entity.add(new TickComponent(0));
+  world.addEntity(entity);
+  systems.forEach((system) => world.addSystem(system));
+  return world;
+}
+
+describe('system groups', () => {
+  it('skip the systems of disabled groups and of their nested groups', () => {
+    const simulation = new DeltaSystem('simulation');
+    const physics = new DeltaSystem('physics');
+    const ungrouped = new DeltaSystem();
+    const world = createWorld(simulation, physics, ungrouped);
+    world.addGroup(new SystemGroup('simulation', { enabled: false }));
+    world.addGroup(new SystemGroup('physics', { parent: 'simulation' }));
+
+    world.update(100);
+    expect([simulation.deltas, physics.deltas, ungrouped.deltas]).toEqual([[], [], [0.1]]);
+    expect([simulation.renders, physics.renders, ungrouped.renders]).toEqual([0, 0, 1]);
+
+    world.getGroup('simulation')!.enabled = true;
+    world.update(200);
+    expect([simulation.deltas, physics.deltas, ungrouped.deltas]).toEqual([[0.2], [0.2], [0.1, 0.1]]);
+  });
+
+  it('scale the delta of their systems with their ancestors', () => {
+    const system = new DeltaSystem('slow');
+    const world = createWorld(system);
+    world.addGroup(new SystemGroup('world', { timeScale: 0.5 }));
+    world.addGroup(new SystemGroup('slow', { parent: 'world', timeScale: 0.5 }));
+
+    world.update(100);
+
+    expect(system.deltas).toEqual([0.025]);
+  });
+
+  it('limit the update frequency of their systems', () => {
+    const system = new DeltaSystem('network');
+    const world = createWorld(system);
+    world.addGroup(new SystemGroup('network', { frequency: 10 }));
+
+    [16, 32, 100, 116, 200, 216].forEach((time) => world.update(time));
+
+    expect(system.deltas).toEqual([0.016, 0.1, 0.1]);
+  });
+
+  it('only run manual groups on demand', () => {
+    const system = new DeltaSystem('editor');
+    const world = createWorld(system);
+    world.addGroup(new SystemGroup('editor', { manual: true }));
+
+    world.update(100);
+    expect([system.deltas, system.renders]).toEqual([[], 0]);
+
+    world.runGroup('editor', 100);
+    expect([system.deltas, system.renders]).toEqual([[0.1], 1]);
+  });
+});
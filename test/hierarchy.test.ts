@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+
+import { ChildOf, Component, Entity, World } from '../src';
+
+const Targets = Component.register<number>('Targets', { relation: {} });
+
+class NodeEntity extends Entity {}
+
+function spawn(world: World, parent?: Entity): Entity {
+  const entity = new NodeEntity();
+  world.addEntity(entity);
+  if (parent) {
+    world.setParent(entity, parent);
+  }
+  return entity;
+}
+
+describe('hierarchies', () => {
+  it('index parents, ordered children, ancestors and descendants', () => {
+    const world = new World('tree', [], () => 0);
+    const root = spawn(world);
+    const a = spawn(world, root);
+    const b = spawn(world, root);
+    const leaf = spawn(world, a);
+
+    expect(world.getParent(leaf)).toBe(a);
+    expect(world.getChildren(root)).toEqual([a, b]);
+    expect(world.getAncestors(leaf)).toEqual([a, root]);
+    expect(world.getDescendants(root)).toEqual([a, leaf, b]);
+
+    world.setParent(b, root, 0);
+    expect(world.getChildren(root)).toEqual([b, a]);
+  });
+
+  it('move and detach children', () => {
+    const world = new World('moved', [], () => 0);
+    const root = spawn(world);
+    const other = spawn(world);
+    const child = spawn(world, root);
+
+    world.setParent(child, other);
+    expect(world.getChildren(root)).toEqual([]);
+    expect(world.getChildren(other)).toEqual([child]);
+    expect(child.components[ChildOf.type]).toHaveLength(1);
+
+    world.setParent(child);
+    expect(world.getParent(child)).toBeUndefined();
+    expect(world.getChildren(other)).toEqual([]);
+  });
+
+  it('reject cycles', () => {
+    const world = new World('cycle', [], () => 0);
+    const root = spawn(world);
+    const child = spawn(world, root);
+
+    expect(() => world.setParent(root, child)).toThrow('can not be a child of its descendant');
+    expect(() => world.setParent(root, root)).toThrow('can not be a child of its descendant');
+  });
+
+  it('remove descendants along with their ancestor', () => {
+    const world = new World('cascade', [], () => 0);
+    const root = spawn(world);
+    const child = spawn(world, root);
+    const leaf = spawn(world, child);
+    const sibling = spawn(world);
+    const [childId, leafId] = [child.id, leaf.id];
+
+    world.removeEntity(root);
+
+    expect(world.getEntity(childId)).toBeUndefined();
+    expect(world.getEntity(leafId)).toBeUndefined();
+    expect(world.getEntity(sibling.id)).toBe(sibling);
+  });
+});
+
+describe('relations', () => {
+  it('are dropped when their target is removed, unless they cascade', () => {
+    const world = new World('relations', [], () => 0);
+    const hunter = spawn(world);
+    const prey = spawn(world);
+    const other = spawn(world);
+    hunter.add(new Targets(prey.id));
+    hunter.add(new Targets(other.id));
+
+    expect(world.getTargets(hunter, Targets.type)).toEqual([prey, other]);
+    expect(world.getRelated(Targets.type, prey)).toEqual([hunter]);
+
+    world.removeEntity(prey);
+
+    expect(world.getEntity(hunter.id)).toBe(hunter);
+    expect(world.getTargets(hunter, Targets.type)).toEqual([other]);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, System, World } from '../src';
+import type { StructuralChange } from '../src';
+
+type Position = { x: number; y: number };
+
+const PositionComponent = Component.register<Position>('Position');
+const HiddenComponent = Component.register<boolean>();
+
+class MoveSystem extends System {
+  constructor() {
+    super([PositionComponent.type], ['playing'], 30);
+    this.priority = 2;
+    this.group = 'simulation';
+  }
+
+  update(): void {}
+}
+
+describe('inspector', () => {
+  it('describes worlds, entities and systems', () => {
+    const world = new World('inspected', [], () => 0);
+    const system = new MoveSystem();
+    world.addSystem(system);
+    const entity = world.acquireEntity();
+    const position = new PositionComponent({ x: 1, y: 2 });
+    position.attributes.dirty = true;
+    entity.add(position);
+    entity.add(new HiddenComponent(true));
+    world.addEntity(entity);
+
+    expect(world.inspect()).toEqual({
+      id: 'inspected',
+      state: '',
+      time: 0,
+      timeScale: 1,
+      entities: [
+        {
+          id: entity.id,
+          generation: entity.generation,
+          handle: entity.handle,
+          active: true,
+          components: [
+            { type: PositionComponent.type, name: 'Position', data: { x: 1, y: 2 }, attributes: { dirty: true } },
+            { type: HiddenComponent.type, name: undefined, data: true, attributes: {} }
+          ],
+          systems: [system.id]
+        }
+      ],
+      systems: [
+        {
+          id: system.id,
+          name: 'MoveSystem',
+          componentTypes: [PositionComponent.type],
+          states: ['playing'],
+          frequency: 30,
+          priority: 2,
+          group: 'simulation',
+          active: false,
+          entities: [entity.id]
+        }
+      ]
+    });
+  });
+
+  it('returns copies which can not alter the world', () => {
+    const world = new World('copies', [], () => 0);
+    const entity = world.acquireEntity();
+    entity.add(new PositionComponent({ x: 1, y: 2 }));
+    world.addEntity(entity);
+
+    const inspection = world.inspectEntity(entity.id)!;
+    (inspection.components[0].data as Position).x = 10;
+
+    expect(entity.components[PositionComponent.type][0].data).toEqual({ x: 1, y: 2 });
+  });
+
+  it('copies data which can not be cloned', () => {
+    const CallbackComponent = Component.register<{ count: number; onHit: () => void }>('Callback');
+    const onHit = () => {};
+    const world = new World('callbacks', [], () => 0);
+    const entity = world.acquireEntity();
+    const component = new CallbackComponent({ count: 1, onHit });
+    component.attributes = { tags: ['enemy'], log: console.log };
+    entity.add(component);
+    world.addEntity(entity);
+
+    const [inspection] = world.inspectEntity(entity.id)!.components;
+
+    expect(inspection.data).toEqual({ count: 1, onHit });
+    expect(inspection.data).not.toBe(component.data);
+    expect(inspection.attributes.tags).not.toBe(component.attributes.tags);
+    expect(world.inspect().entities).toHaveLength(1);
+  });
+
+  it('ignores entities and systems of other worlds', () => {
+    const world = new World('a', [], () => 0);
+    const other = new World('b', [], () => 0);
+    const entity = other.acquireEntity();
+    other.addEntity(entity);
+
+    expect(world.inspectEntity(entity)).toBeUndefined();
+    expect(world.inspectSystem(new MoveSystem())).toBeUndefined();
+  });
+
+  it('notifies structural changes until unsubscribed', () => {
+    const world = new World('changes', [], () => 0);
+    const changes: StructuralChange['type'][] = [];
+    const unsubscribe = world.onStructuralChange(({ type }) => changes.push(type));
+
+    const system = new MoveSystem();
+    world.addSystem(system);
+    const entity = world.acquireEntity();
+    world.addEntity(entity);
+    const position = new PositionComponent({ x: 0, y: 0 });
+    entity.add(position);
+    entity.remove(position);
+    world.setState('playing');
+    world.removeEntity(entity);
+    world.removeSystem(system);
+    unsubscribe();
+    world.setState('paused');
+
+    expect(changes).toEqual([
+      'systemAdded',
+      'entityAdded',
+      'componentAdded',
+      'componentRemoved',
+      'stateChanged',
+      'entityRemoved',
+      'systemRemoved'
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, ComponentRegistry, World, decodeSnapshot, encodeSnapshot } from '../src';
+import type { ComponentMigration, WorldSnapshot } from '../src';
+
+type PositionV0 = { x: number; y: number };
+type Position = { position: number[]; z: number; label: string };
+
+const PositionComponent = Component.register<PositionV0>('Position', {
+  schema: { x: { type: 'number' }, y: { type: 'number' } }
+});
+
+function createSnapshot(): WorldSnapshot {
+  const world = new World('v0', [], () => 0);
+  [1, 2, 3].forEach((x) => {
+    const entity = world.acquireEntity();
+    entity.add(new PositionComponent({ x, y: x * 2 }));
+    world.addEntity(entity);
+  });
+  const snapshot = world.serialize();
+
+  // Release the entity ids, so that they can be restored in other worlds
+  snapshot.entities.forEach(({ id }) => world.removeEntity(id));
+  return snapshot;
+}
+
+function createRegistry(migrations: Record<number, ComponentMigration>): ComponentRegistry {
+  const registry = new ComponentRegistry();
+  const ComponentClass = Component.register<Position>(undefined, {
+    version: 2,
+    schema: {
+      position: { type: 'vector2' },
+      z: { type: 'number' },
+      label: { type: 'string', default: 'none' }
+    },
+    migrations
+  });
+  registry.register(ComponentClass, 'Position');
+  return registry;
+}
+
+describe('migrations', () => {
+  it('saves the version of components in snapshots', () => {
+    expect(createSnapshot().entities[0].components[0].version).toBe(0);
+  });
+
+  it('upgrades data step by step to the current version', () => {
+    const registry = createRegistry({
+      1: ({ x, y }) => ({ position: [x, y] }),
+      2: (data) => ({ ...data, z: data.position[0] + data.position[1] })
+    });
+    const world = new World('v2', [], () => 0);
+
+    expect(world.deserialize(createSnapshot(), registry)).toEqual([]);
+    expect(world.serialize(registry).entities.map(({ components }) => components[0])).toEqual([
+      { name: 'Position', version: 2, data: { position: [1, 2], z: 3, label: 'none' }, attributes: {} },
+      { name: 'Position', version: 2, data: { position: [2, 4], z: 6, label: 'none' }, attributes: {} },
+      { name: 'Position', version: 2, data: { position: [3, 6], z: 9, label: 'none' }, attributes: {} }
+    ]);
+  });
+
+  it('reports the entities which could not be migrated, restoring the others', () => {
+    const registry = createRegistry({
+      1: ({ x, y }) => {
+        if (x === 2) {
+          throw new Error('Invalid position');
+        }
+        return { position: [x, y], z: 0 };
+      }
+    });
+    const world = new World('failed', [], () => 0);
+    const snapshot = createSnapshot();
+    const [first, second, third] = snapshot.entities.map(({ id }) => id);
+
+    expect(world.deserialize(snapshot, registry)).toEqual([
+      { id: second, name: 'Position', version: 0, error: 'Invalid position' }
+    ]);
+    expect(world.serialize(registry).entities.map(({ id }) => id)).toEqual([first, third]);
+  });
+
+  it('reports migrated data missing fields without default value', () => {
+    const registry = createRegistry({ 1: ({ x, y }) => ({ position: [x, y], Z: 0 }) });
+    const failures = new World('missing', [], () => 0).deserialize(createSnapshot(), registry);
+
+    expect(failures).toHaveLength(3);
+    expect(failures[0].error).toContain('Field "z" is not a valid number');
+  });
+
+  it('reports invalid data of the current version', () => {
+    const snapshot = createSnapshot();
+    snapshot.entities[1].components[0].data = { x: 'two', y: 4 };
+
+    const world = new World('current', [], () => 0);
+    const failures = world.deserialize(snapshot);
+
+    expect(failures).toHaveLength(1);
+    expect(failures[0].id).toBe(snapshot.entities[1].id);
+    expect(failures[0].error).toContain('Field "x" is not a valid number');
+    expect(world.serialize().entities.map(({ id }) => id)).toEqual([snapshot.entities[0].id, snapshot.entities[2].id]);
+  });
+
+  it('reports components which could not be created, restoring the others', () => {
+    const BaseComponent = Component.register<PositionV0>(undefined);
+    class ThrowingComponent extends BaseComponent {
+      constructor(data: PositionV0) {
+        if (data.x === 2) {
+          throw new Error('Invalid position');
+        }
+        super(data);
+      }
+    }
+    const registry = new ComponentRegistry();
+    registry.register(ThrowingComponent, 'Position');
+    const world = new World('throwing', [], () => 0);
+    const snapshot = createSnapshot();
+    const [first, second, third] = snapshot.entities.map(({ id }) => id);
+
+    expect(world.deserialize(snapshot, registry)).toEqual([
+      { id: second, name: 'Position', version: 0, error: 'Invalid position' }
+    ]);
+    expect(world.serialize(registry).entities.map(({ id }) => id)).toEqual([first, third]);
+  });
+
+  it('reports data of a newer version', () => {
+    const registry = createRegistry({ 1: ({ x, y }) => ({ position: [x, y], z: 0 }) });
+    const world = new World('v2', [], () => 0);
+    world.deserialize(createSnapshot(), registry);
+
+    const failures = world.deserialize(world.serialize(registry));
+
+    expect(failures.map(({ version }) => version)).toEqual([2, 2, 2]);
+  });
+
+  it('migrates binary snapshots', () => {
+    const registry = createRegistry({ 1: ({ x, y }) => ({ position: [x, y], z: 0 }) });
+    const world = new World('binary', [], () => 0);
+
+    const snapshot = decodeSnapshot(encodeSnapshot(createSnapshot()), registry);
+
+    expect(snapshot.entities[0].components[0]).toEqual({
+      name: 'Position',
+      version: 0,
+      data: { x: 1, y: 2 },
+      attributes: {}
+    });
+    expect(world.deserialize(snapshot, registry)).toEqual([]);
+    expect(world.serialize(registry).entities[2].components[0].data).toEqual({ position: [3, 6], z: 0, label: 'none' });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, Entity, System, World } from '../src';
+
+const TickComponent = Component.register<number>();
+
+/**
+ * System logging its name on each update
+ */
+class LogSystem extends System {
+  readonly name: string;
+  readonly log: string[];
+
+  constructor(name: string, log: string[], priority: number = 0) {
+    super([TickComponent.type]);
+    this.name = name;
+    this.log = log;
+    this.priority = priority;
+  }
+
+  update(): void {
+    this.log.push(this.name);
+  }
+}
+
+class InputSystem extends LogSystem {}
+class PhysicsSystem extends LogSystem {}
+class RenderSystem extends LogSystem {}
+
+class TickEntity extends Entity {}
+
+function run(systems: System[]): World {
+  const world = new World('ordering', [], () => 0);
+  const entity = new TickEntity();
+  entity.add(new TickComponent(0));
+  world.addEntity(entity);
+  systems.forEach((system) => world.addSystem(system));
+  world.update(16);
+  return world;
+}
+
+describe('system ordering', () => {
+  it('updates systems by descending priority, keeping the insertion order of equal priorities', () => {
+    const log: string[] = [];
+    run([new LogSystem('a', log), new LogSystem('b', log, 2), new LogSystem('c', log), new LogSystem('d', log, 1)]);
+
+    expect(log).toEqual(['b', 'd', 'a', 'c']);
+  });
+
+  it('honours before and after dependencies over priorities', () => {
+    const log: string[] = [];
+    const render = new RenderSystem('render', log, 10);
+    const physics = new PhysicsSystem('physics', log);
+    const input = new InputSystem('input', log);
+    render.after = [PhysicsSystem];
+    input.before = [physics];
+
+    const world = run([render, physics, input]);
+
+    expect(log).toEqual(['input', 'physics', 'render']);
+    expect(world.getSystemOrder()).toEqual([input, physics, render]);
+  });
+
+  it('re-sorts systems after a change of priority', () => {
+    const log: string[] = [];
+    const a = new LogSystem('a', log, 1);
+    const b = new LogSystem('b', log);
+    const world = run([a, b]);
+
+    b.priority = 2;
+    world.sortSystems();
+    world.update(32);
+
+    expect(log).toEqual(['a', 'b', 'b', 'a']);
+  });
+
+  it('reports dependency cycles', () => {
+    const log: string[] = [];
+    const input = new InputSystem('input', log);
+    const physics = new PhysicsSystem('physics', log);
+    input.after = [PhysicsSystem];
+    physics.after = [InputSystem];
+
+    expect(() => run([input, physics])).toThrow(
+      `Cycle detected in systems order: InputSystem#${input.id} -> PhysicsSystem#${physics.id} -> InputSystem#${input.id}`
+    );
+  });
+});
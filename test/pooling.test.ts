@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, Entity, Pool, System, World } from '../src';
+
+type Bullet = { speed: number };
+
+const BulletComponent = Component.register<Bullet>('Bullet', { pool: 2, schema: { speed: { type: 'number' } } });
+const TracerComponent = Component.register<boolean>('Tracer');
+
+class BulletSystem extends System {
+  public updated: Entity[] = [];
+
+  constructor(frequency: number = 0) {
+    super([BulletComponent.type], undefined, frequency);
+  }
+
+  update(_time: number, _delta: number, entity: Entity): void {
+    this.updated.push(entity);
+  }
+}
+
+function spawn(world: World, speed: number): Entity {
+  const entity = world.acquireEntity();
+  entity.add(BulletComponent.acquire({ speed }));
+  world.addEntity(entity);
+  return entity;
+}
+
+describe('pooling', () => {
+  it('reuses removed entities and their components', () => {
+    const world = new World('pool', [], () => 0);
+    world.entityPool = new Pool(10);
+
+    const entity = spawn(world, 1);
+    const component = BulletComponent.oneFrom(entity);
+    world.removeEntity(entity);
+    const reused = spawn(world, 2);
+
+    expect(reused).toBe(entity);
+    expect(BulletComponent.oneFrom(reused)).toBe(component);
+    expect(component.data).toEqual({ speed: 2 });
+    expect(world.entityPool.stats).toEqual({ hits: 1, misses: 1, releases: 1, discards: 0 });
+  });
+
+  it('discards released instances once the pool is full', () => {
+    const pool = new Pool<number>(2);
+
+    expect([1, 2, 3].map((item) => pool.release(item))).toEqual([true, true, false]);
+    expect(pool.stats.discards).toBe(1);
+    expect([pool.acquire(), pool.acquire(), pool.acquire()]).toEqual([2, 1, undefined]);
+  });
+
+  it('does not reuse the update times of removed entities', () => {
+    const system = new BulletSystem();
+    const tracerSystem = new (class extends System {
+      constructor() {
+        super([BulletComponent.type, TracerComponent.type]);
+      }
+    })();
+    const world = new World('records', [system, tracerSystem], () => 0);
+    world.entityPool = new Pool(10);
+
+    const tracer = spawn(world, 1);
+    tracer.add(new TracerComponent(true));
+    world.removeEntity(tracer);
+    const bullet = spawn(world, 2);
+
+    expect(bullet).toBe(tracer);
+    expect(Object.keys(world['_entitySystemLastUpdate'][bullet.id])).toEqual([String(system.id)]);
+    expect(Object.keys(world['_entitySystemLastUpdateGame'][bullet.id])).toEqual([String(system.id)]);
+  });
+});
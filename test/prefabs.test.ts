@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, Prefab, World } from '../src';
+import type { PrefabData } from '../src';
+
+type Stats = { health: number; speed: number };
+
+const StatsComponent = Component.register<Stats>('Stats');
+const NameComponent = Component.register<string>('Name');
+const WeaponComponent = Component.register<string>('Weapon');
+
+const enemy = new Prefab('Enemy', { Stats: { health: 10, speed: 1 }, Name: 'enemy' }, [
+  new Prefab(undefined, { Weapon: 'sword' })
+]);
+const boss = new Prefab(
+  'Boss',
+  { Stats: { health: 100 }, Name: 'boss' },
+  [new Prefab(undefined, { Weapon: 'axe' })],
+  enemy
+);
+
+describe('prefabs', () => {
+  it('create entities and their children', () => {
+    const world = new World('prefabs', [], () => 0);
+    const entity = enemy.instantiate(world);
+
+    expect(entity.components[StatsComponent.type][0].data).toEqual({ health: 10, speed: 1 });
+    expect(world.getChildren(entity).map((child) => child.components[WeaponComponent.type][0].data)).toEqual(['sword']);
+  });
+
+  it('merge inherited components and children', () => {
+    const world = new World('inheritance', [], () => 0);
+    const entity = boss.instantiate(world);
+
+    expect(entity.components[StatsComponent.type][0].data).toEqual({ health: 100, speed: 1 });
+    expect(entity.components[NameComponent.type][0].data).toBe('boss');
+    expect(world.getChildren(entity).map((child) => child.components[WeaponComponent.type][0].data)).toEqual([
+      'sword',
+      'axe'
+    ]);
+  });
+
+  it('apply overrides without altering the prefab', () => {
+    const world = new World('overrides', [], () => 0);
+    const first = enemy.instantiate(world, { Stats: { speed: 2 } });
+    const second = enemy.instantiate(world);
+    first.components[StatsComponent.type][0].data.health = 0;
+
+    expect(first.components[StatsComponent.type][0].data).toEqual({ health: 0, speed: 2 });
+    expect(second.components[StatsComponent.type][0].data).toEqual({ health: 10, speed: 1 });
+  });
+
+  it('round-trip through plain data', () => {
+    const data: PrefabData = JSON.parse(JSON.stringify(boss.toJSON()));
+    const prefab = Prefab.fromJSON(data, { Enemy: Prefab.fromJSON(enemy.toJSON()) });
+
+    expect(data.extends).toBe('Enemy');
+    expect(prefab.getComponents()).toEqual(boss.getComponents());
+    expect(prefab.toJSON()).toEqual(boss.toJSON());
+    expect(() => Prefab.fromJSON(data)).toThrow('Prefab "Enemy" is not defined');
+  });
+
+  it('leave the world untouched when a component is not registered', () => {
+    const world = new World('unregistered', [], () => 0);
+    const prefab = new Prefab('Broken', { Name: 'broken' }, [new Prefab(undefined, { Unknown: 0 })]);
+
+    expect(() => prefab.instantiate(world)).toThrow('Component "Unknown" is not registered');
+    expect(world.queryEntitiesByComponent(NameComponent.type)).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, Entity, Profiler, System, World } from '../src';
+
+const WorkComponent = Component.register<number>('Work');
+
+describe('profiler', () => {
+  let time = 0;
+
+  /**
+   * System spending, on the profiler clock, the time held by the component of each entity, and 1ms per rendered entity
+   */
+  class WorkSystem extends System {
+    constructor() {
+      super([WorkComponent.type]);
+    }
+
+    update(_time: number, _delta: number, entity: Entity): void {
+      time += entity.components[WorkComponent.type][0].data;
+    }
+
+    render(): void {
+      time += 1;
+    }
+  }
+
+  class IdleSystem extends System {
+    constructor() {
+      super([WorkComponent.type]);
+    }
+
+    update(): void {}
+  }
+
+  function createWorld(frames: number): [World, WorkSystem, IdleSystem] {
+    const world = new World('profiled', [], () => 0);
+    world.profiler = new Profiler(frames, () => time);
+    const work = new WorkSystem();
+    const idle = new IdleSystem();
+    world.addSystem(idle);
+    world.addSystem(work);
+    return [world, work, idle];
+  }
+
+  function spawn(world: World, work: number): void {
+    const entity = world.acquireEntity();
+    entity.add(new WorkComponent(work));
+    world.addEntity(entity);
+  }
+
+  it('records the time spent by systems in each phase, and their entity counts', () => {
+    const [world, work, idle] = createWorld(60);
+    spawn(world, 2);
+    spawn(world, 3);
+
+    world.update(16);
+    const [profile, idleProfile] = world.profiler!.getProfiles();
+
+    expect(profile).toMatchObject({ id: work.id, name: 'WorkSystem', entities: 2, averageEntities: 2 });
+    expect(profile.phases.update).toMatchObject({ average: 5, max: 5 });
+    expect(profile.phases.render).toMatchObject({ average: 2, max: 2 });
+    expect(profile.total.average).toBe(7);
+    expect(idleProfile).toMatchObject({ id: idle.id, entities: 2 });
+    expect(idleProfile.total.average).toBe(0);
+  });
+
+  it('computes statistics over a rolling window of frames', () => {
+    const [world, work] = createWorld(4);
+    spawn(world, 1);
+
+    [1, 1, 1, 1, 10].forEach((amount, index) => {
+      world.queryEntitiesByComponent(WorkComponent.type)[0].components[WorkComponent.type][0].data = amount;
+      world.update(16 * (index + 1));
+    });
+    const profile = world.profiler!.getProfiles().find(({ id }) => id === work.id)!;
+
+    expect(profile.phases.update).toEqual({ average: 13 / 4, p50: 1, p95: 10, p99: 10, max: 10 });
+  });
+
+  it('reports profiles as text, and forgets them on reset', () => {
+    const [world, work] = createWorld(60);
+    spawn(world, 1);
+    world.update(16);
+
+    const report = world.profiler!.report().split('\n');
+    expect(report[0]).toMatch(/^System\s+Entities\s+Avg ms\s+P50 ms\s+P95 ms\s+P99 ms\s+Max ms$/);
+    expect(report[1]).toMatch(new RegExp(`^WorkSystem#${work.id}\\s+1\\s+2\\.000`));
+    expect(report).toContainEqual(expect.stringMatching(/^ {2}update\s+1\.000/));
+
+    world.profiler!.reset();
+    expect(world.profiler!.getProfiles()).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, Entity, System, World } from '../src';
+
+const PositionComponent = Component.register<number>('Position');
+const FrozenComponent = Component.register<boolean>('Frozen');
+const PlayerComponent = Component.register<boolean>('Player');
+const EnemyComponent = Component.register<boolean>('Enemy');
+const ShieldComponent = Component.register<number>('Shield');
+
+class QueryEntity extends Entity {}
+
+function spawn(world: World, ...components: Component[]): Entity {
+  const entity = new QueryEntity();
+  components.forEach((component) => entity.add(component));
+  world.addEntity(entity);
+  return entity;
+}
+
+describe('query descriptions', () => {
+  const world = new World('queries', [], () => 0);
+  const player = spawn(world, new PositionComponent(0), new PlayerComponent(true), new ShieldComponent(1));
+  const enemy = spawn(world, new PositionComponent(0), new EnemyComponent(true));
+  const frozen = spawn(world, new PositionComponent(0), new EnemyComponent(true), new FrozenComponent(true));
+  const rock = spawn(world, new PositionComponent(0));
+
+  const search = (...args: Parameters<World['query']>) => world.query(...args).map((entity) => entity.id);
+
+  it('filter out entities having none of some types', () => {
+    expect(search({ all: [PositionComponent.type], none: [FrozenComponent.type] }).sort()).toEqual(
+      [player.id, enemy.id, rock.id].sort()
+    );
+  });
+
+  it('match entities having any of some types', () => {
+    expect(search({ any: [PlayerComponent.type, EnemyComponent.type] }).sort()).toEqual(
+      [player.id, enemy.id, frozen.id].sort()
+    );
+    expect(search({ any: [PlayerComponent.type, EnemyComponent.type], none: [FrozenComponent.type] }).sort()).toEqual(
+      [player.id, enemy.id].sort()
+    );
+  });
+
+  it('do not require optional types', () => {
+    expect(search({ all: [EnemyComponent.type], optional: [ShieldComponent.type] }).sort()).toEqual(
+      [enemy.id, frozen.id].sort()
+    );
+  });
+
+  it('share cached queries between equivalent descriptions', () => {
+    expect(search([EnemyComponent.type, PositionComponent.type])).toEqual(
+      search({ all: [PositionComponent.type, EnemyComponent.type, EnemyComponent.type] })
+    );
+  });
+});
+
+describe('systems with a query description', () => {
+  class TargetSystem extends System {
+    public entered: Entity[] = [];
+    public exited: Entity[] = [];
+    public changes: Array<[Entity, Component | undefined, Component | undefined]> = [];
+
+    constructor() {
+      super({
+        any: [PlayerComponent.type, EnemyComponent.type],
+        none: [FrozenComponent.type],
+        optional: [ShieldComponent.type]
+      });
+    }
+
+    enter(entity: Entity): void {
+      this.entered.push(entity);
+    }
+
+    exit(entity: Entity): void {
+      this.exited.push(entity);
+    }
+
+    change(entity: Entity, added?: Component, removed?: Component): void {
+      this.changes.push([entity, added, removed]);
+    }
+  }
+
+  it('enter and exit entities as they match the description', () => {
+    const world = new World('targets', [], () => 0);
+    const system = new TargetSystem();
+    world.addSystem(system);
+    const enemy = spawn(world, new PositionComponent(0), new EnemyComponent(true));
+
+    const frozen = new FrozenComponent(true);
+    enemy.add(frozen);
+    enemy.remove(frozen);
+
+    expect(system.entered).toEqual([enemy, enemy]);
+    expect(system.exited).toEqual([enemy]);
+  });
+
+  it('are notified of changes of optional components', () => {
+    const world = new World('optional', [], () => 0);
+    const system = new TargetSystem();
+    world.addSystem(system);
+    const enemy = spawn(world, new EnemyComponent(true));
+    const shield = new ShieldComponent(1);
+
+    enemy.add(shield);
+    enemy.add(new PositionComponent(0));
+
+    expect(system.changes).toEqual([[enemy, shield, undefined]]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, Entity, System, World } from '../src';
+
+const TagComponent = Component.register<string>('Tag');
+
+class TagEntity extends Entity {}
+
+class CallbackSystem extends System {
+  constructor(
+    priority: number,
+    public callback: (entity: Entity) => void
+  ) {
+    super([TagComponent.type]);
+    this.priority = priority;
+  }
+
+  update(_time: number, _delta: number, entity: Entity): void {
+    this.callback(entity);
+  }
+}
+
+function spawn(world: World, name: string): Entity {
+  const entity = new TagEntity();
+  entity.add(new TagComponent(name));
+  world.addEntity(entity);
+  return entity;
+}
+
+describe('entity id recycling', () => {
+  it('reuses the ids of removed entities with a new generation', () => {
+    const world = new World('ids', [], () => 0);
+    const entity = spawn(world, 'a');
+    const { id, generation, handle } = entity;
+
+    world.removeEntity(entity);
+    const reused = spawn(world, 'b');
+
+    expect(reused.id).toBe(id);
+    expect(reused.generation).toBe(generation + 1);
+    expect(world.getEntityByHandle(handle)).toBeUndefined();
+    expect(world.getEntityByHandle(reused.handle)).toBe(reused);
+  });
+
+  it('ignores the removal of stale entities whose id has been reused', () => {
+    const world = new World('stale', [], () => 0);
+    const stale = spawn(world, 'stale');
+    world.removeEntity(stale);
+    const live = spawn(world, 'live');
+
+    world.removeEntity(stale);
+
+    expect(live.id).toBe(stale.id);
+    expect(world.getEntity(live.id)).toBe(live);
+    expect(world.queryEntitiesByComponent(TagComponent.type)).toEqual([live]);
+
+    live.remove(TagComponent.oneFrom(live));
+    expect(world.queryEntitiesByComponent(TagComponent.type)).toEqual([]);
+  });
+
+  it('rejects released entities and ids which are already allocated', () => {
+    const world = new World('rejected', [], () => 0);
+    const released = spawn(world, 'released');
+    world.removeEntity(released);
+    const live = spawn(world, 'live');
+
+    expect(() => world.addEntity(released)).toThrow(`Entity ${released.id} has been released`);
+    expect(() => new TagEntity(live.id, live.generation)).toThrow(`Entity id ${live.id} is already allocated`);
+    expect(world.getEntity(live.id)).toBe(live);
+  });
+
+  it('does not update removed entities whose id is reused during the same frame', () => {
+    const world = new World('flush', [], () => 0);
+    const victim = spawn(world, 'victim');
+    const spawner = spawn(world, 'spawner');
+    const seen: string[] = [];
+
+    world.addSystem(
+      new CallbackSystem(3, (entity) => {
+        if (entity === victim) {
+          world.commands.removeEntity(victim);
+        }
+      })
+    );
+    world.addSystem(
+      new CallbackSystem(2, (entity) => {
+        if (entity === spawner) {
+          world.commands.createEntity([new TagComponent('spawned')]);
+        }
+      })
+    );
+    world.addSystem(new CallbackSystem(1, (entity) => seen.push(TagComponent.oneFrom(entity).data)));
+
+    world.update(16);
+
+    expect(world.getEntity(victim.id)).not.toBe(victim);
+    expect(seen).not.toContain('victim');
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, ComponentRegistry } from '../src';
+
+describe('component registration', () => {
+  it('maps names to component classes and types', () => {
+    const Position = Component.register<number>('RegisteredPosition');
+
+    expect(Component.registry.get('RegisteredPosition')).toBe(Position);
+    expect(Component.registry.getByType(Position.type)).toBe(Position);
+    expect(Component.registry.getName(Position.type)).toBe('RegisteredPosition');
+    expect(Component.registry.has('RegisteredVelocity')).toBe(false);
+  });
+
+  it('rejects duplicate names and pinned types', () => {
+    Component.register<number>('DuplicatePosition', { type: 1000 });
+
+    expect(() => Component.register<number>('DuplicatePosition')).toThrow(
+      'Component "DuplicatePosition" is already registered'
+    );
+    expect(() => Component.register<number>('DuplicateVelocity', { type: 1000 })).toThrow(
+      'Component type 1000 is already registered'
+    );
+  });
+
+  it('skips pinned types when allocating types', () => {
+    const pinned = Component.register<number>('Pinned', { type: Component.type + 1 });
+    const first = Component.register<number>('First');
+    const second = Component.register<number>('Second');
+
+    expect(new Set([pinned.type, first.type, second.type]).size).toBe(3);
+  });
+
+  it('registers existing classes in other registries', () => {
+    const Position = Component.register<number>();
+    const Velocity = Component.register<number>();
+    const registry = new ComponentRegistry();
+    registry.register(Position, 'Position');
+
+    expect(registry.get('Position')).toBe(Position);
+    expect(registry.getName(Position.type)).toBe('Position');
+    expect(() => registry.register(Velocity, 'Position')).toThrow('Component "Position" is already registered');
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, Entity, ReplayPlayer, ReplayRecorder, System, Universe, World } from '../src';
+
+type Position = { x: number; vx: number };
+
+const registerComponents = () => ({
+  PositionComponent: Component.register<Position>('Position', {
+    schema: { x: { type: 'number' }, vx: { type: 'number' } }
+  })
+});
+
+function createWorld(universe: Universe, id: string, populate: boolean = false): World {
+  return universe.run(() => {
+    const { PositionComponent } = registerComponents();
+
+    class MoveSystem extends System {
+      constructor() {
+        super([PositionComponent.type]);
+        this.addListener<number>('spawn', (vx) => {
+          this.world.commands.createEntity([new PositionComponent({ x: 0, vx })]);
+        });
+      }
+
+      update(_time: number, delta: number, entity: Entity): void {
+        const position = PositionComponent.oneFrom(entity).data;
+        position.x += position.vx * delta;
+      }
+    }
+
+    const world = new World(id, [new MoveSystem()], () => 0, universe);
+    if (populate) {
+      const entity = world.acquireEntity();
+      entity.add(new PositionComponent({ x: 0, vx: 1 }));
+      world.addEntity(entity);
+    }
+    return world;
+  });
+}
+
+function record(): ReturnType<ReplayRecorder['stop']> {
+  const world = createWorld(new Universe(), 'recorded', true);
+  const recorder = new ReplayRecorder(world);
+  recorder.start();
+
+  for (let frame = 1; frame <= 20; frame++) {
+    if (frame % 5 === 0) {
+      world.events.emit('spawn', frame);
+    }
+    world.update(frame * 16);
+  }
+
+  return JSON.parse(JSON.stringify(recorder.stop()));
+}
+
+describe('replay', () => {
+  it('records external inputs and a checksum per frame', () => {
+    const log = record();
+
+    expect(log.frames).toHaveLength(20);
+    expect(log.frames[4].inputs).toEqual([{ type: 'emit', event: 'spawn', payload: 5 }]);
+    expect(new Set(log.frames.map((frame) => frame.checksum)).size).toBe(20);
+  });
+
+  it('re-simulates a session in a world of another universe without divergence', () => {
+    const log = record();
+    const player = new ReplayPlayer(createWorld(new Universe(), 'replayed'), log);
+
+    expect(player.play()).toBe(-1);
+    expect(player.done).toBe(true);
+    expect(player.world.serialize().entities).toHaveLength(5);
+  });
+
+  it('reports the first diverging frame', () => {
+    const log = record();
+    log.frames[12].inputs.push({ type: 'emit', event: 'spawn', payload: 100 });
+
+    const player = new ReplayPlayer(createWorld(new Universe(), 'replayed'), log);
+
+    expect(player.play()).toBe(12);
+  });
+
+  it('frees the storage rows of the components created to find removed components', () => {
+    const createStoredWorld = (universe: Universe, id: string) =>
+      universe.run(() => {
+        Component.register<{ life: number }>('Life', { storage: 'soa', schema: { life: { type: 'number' } } });
+        return new World(id, [], () => 0, universe);
+      });
+
+    const recorded = createStoredWorld(new Universe(), 'recorded');
+    const entity = recorded.acquireEntity();
+    recorded.addEntity(entity);
+    const recorder = new ReplayRecorder(recorded);
+    recorder.start();
+    for (let frame = 1; frame <= 10; frame++) {
+      const component = new (recorded.universe.registry.get('Life')!)({ life: frame });
+      entity.add(component);
+      recorded.update(frame * 16);
+      entity.remove(component);
+      recorded.update(frame * 16 + 8);
+    }
+
+    const world = createStoredWorld(new Universe(), 'replayed');
+    const player = new ReplayPlayer(world, recorder.stop());
+
+    expect(player.play()).toBe(-1);
+    expect(world.universe.registry.get('Life')!.storage!.size).toBe(0);
+  });
+
+  it('requires the components to be registered in the universe of the replayed world', () => {
+    const log = record();
+    const universe = new Universe();
+    const world = universe.run(() => new World('unregistered', [], () => 0, universe));
+
+    expect(() => new ReplayPlayer(world, log).play()).toThrow('is not registered');
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, LoopbackTransport, ReplicationClient, ReplicationServer, Universe, World } from '../src';
+import type { ReplicationMessage } from '../src';
+
+type Unit = { hp: number; target: number | null };
+
+const registerComponents = () => ({
+  UnitComponent: Component.register<Unit>('Unit', {
+    replicated: true,
+    schema: { hp: { type: 'number' }, target: { type: 'entity' } }
+  }),
+  TeamComponent: Component.register<string>('Team', { replicated: true }),
+  SecretComponent: Component.register<string>('Secret')
+});
+
+function createPeer(id: string) {
+  const universe = new Universe();
+  return universe.run(() => ({
+    universe,
+    components: registerComponents(),
+    world: new World(id, [], () => 0, universe),
+    transport: new LoopbackTransport(id)
+  }));
+}
+
+function setup() {
+  const server = createPeer('server');
+  const client = createPeer('client');
+  server.transport.connect(client.transport);
+
+  const replicationServer = new ReplicationServer(server.world, server.transport);
+  replicationServer.addClient('client');
+  const replicationClient = new ReplicationClient(client.world, client.transport, 'server');
+
+  const sync = () => {
+    replicationServer.send();
+    client.transport.flush();
+    server.transport.flush();
+  };
+
+  const spawn = (components: Component[]) =>
+    server.universe.run(() => {
+      const entity = server.world.acquireEntity();
+      components.forEach((component) => entity.add(component));
+      server.world.addEntity(entity);
+      return entity;
+    });
+
+  return { server, client, replicationServer, replicationClient, sync, spawn };
+}
+
+describe('replication', () => {
+  it('replicates the replicated components of the server entities', () => {
+    const { server, client, replicationClient, sync, spawn } = setup();
+    const { UnitComponent, SecretComponent } = server.components;
+    const entity = spawn([new UnitComponent({ hp: 10 }), new SecretComponent('hidden')]);
+
+    sync();
+
+    const local = replicationClient.getEntity(entity.id)!;
+    expect(client.components.UnitComponent.oneFrom(local).data).toEqual({ hp: 10, target: null });
+    expect(client.components.SecretComponent.oneFrom(local)).toBeUndefined();
+    expect(replicationClient.getServerId(local)).toBe(entity.id);
+    expect(client.world.serialize().entities).toHaveLength(1);
+  });
+
+  it('sends only the changes since the last acknowledged snapshot', () => {
+    const { server, client, replicationClient, sync, spawn } = setup();
+    const { UnitComponent, TeamComponent } = server.components;
+    const messages: ReplicationMessage[] = [];
+    client.transport.onMessage((_, message) => messages.push(message));
+
+    const a = spawn([new UnitComponent({ hp: 10 })]);
+    const b = spawn([new UnitComponent({ hp: 20 }), new TeamComponent('red')]);
+    sync();
+
+    UnitComponent.oneFrom(a).data.hp = 5;
+    server.world.removeEntity(b);
+    sync();
+    sync();
+
+    expect(messages.map((message) => message.type === 'snapshot' && message.entities.length)).toEqual([2, 1, 0]);
+    expect(client.components.UnitComponent.oneFrom(replicationClient.getEntity(a.id)!).data.hp).toBe(5);
+    expect(replicationClient.getEntity(b.id)).toBeUndefined();
+    expect(client.world.serialize().entities).toHaveLength(1);
+  });
+
+  it('converges when acknowledgements are lost', () => {
+    const { server, client, replicationServer, replicationClient, sync, spawn } = setup();
+    const { UnitComponent } = server.components;
+    const entity = spawn([new UnitComponent({ hp: 10 })]);
+
+    for (let hp = 0; hp < 5; hp++) {
+      UnitComponent.oneFrom(entity).data.hp = hp;
+      replicationServer.send();
+      client.transport.flush();
+      server.transport.clear();
+    }
+    sync();
+
+    expect(replicationServer.tick).toBe(6);
+    expect(replicationClient.tick).toBe(6);
+    expect(client.components.UnitComponent.oneFrom(replicationClient.getEntity(entity.id)!).data.hp).toBe(4);
+  });
+
+  it('maps entity references to local entities', () => {
+    const { server, client, replicationClient, sync, spawn } = setup();
+    const { UnitComponent } = server.components;
+    const target = spawn([new UnitComponent({ hp: 1 })]);
+    const source = spawn([new UnitComponent({ hp: 2, target: target.id })]);
+
+    sync();
+
+    const local = replicationClient.getEntity(source.id)!;
+    expect(client.components.UnitComponent.oneFrom(local).data.target).toBe(replicationClient.getEntity(target.id)!.id);
+  });
+
+  it('resolves references to entities replicated after the referencing entity', () => {
+    const { server, client, replicationClient, sync, spawn } = setup();
+    const { UnitComponent, TeamComponent, SecretComponent } = server.components;
+    const target = spawn([new SecretComponent('not replicated yet')]);
+    const source = spawn([new UnitComponent({ hp: 2, target: target.id })]);
+
+    sync();
+    const local = replicationClient.getEntity(source.id)!;
+    expect(client.components.UnitComponent.oneFrom(local).data.target).toBeNull();
+
+    server.universe.run(() => target.add(new TeamComponent('blue')));
+    sync();
+
+    expect(client.components.UnitComponent.oneFrom(local).data.target).toBe(replicationClient.getEntity(target.id)!.id);
+  });
+});
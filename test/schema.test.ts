@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { Component } from '../src';
+
+type Body = { position: number[]; mass: number; name: string; tags: string[]; target: number | null };
+
+const BodyComponent = Component.register<Body>('Body', {
+  schema: {
+    position: { type: 'vector2' },
+    mass: { type: 'number', default: 1 },
+    name: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' }, default: ['body'] },
+    target: { type: 'entity' }
+  }
+});
+
+describe('schema components', () => {
+  afterEach(() => {
+    Component.validation = true;
+  });
+
+  it('fill missing fields with default values', () => {
+    expect(new BodyComponent({ name: 'ball' }).data).toEqual({
+      position: [0, 0],
+      mass: 1,
+      name: 'ball',
+      tags: ['body'],
+      target: null
+    });
+  });
+
+  it('do not share default values between components', () => {
+    const a = new BodyComponent();
+    const b = new BodyComponent();
+    a.data.tags.push('a');
+    a.data.position[0] = 1;
+
+    expect(b.data.tags).toEqual(['body']);
+    expect(b.data.position).toEqual([0, 0]);
+  });
+
+  it('reject invalid data on creation', () => {
+    expect(() => new BodyComponent({ position: [0, 0, 0], mass: 'heavy' as unknown as number })).toThrow(
+      'Invalid data for component Body: Field "position" is not a valid vector2, Field "mass" is not a valid number'
+    );
+    expect(() => new BodyComponent({ tags: [1 as unknown as string] })).toThrow('Field "tags" is not a valid array');
+  });
+
+  it('skip validation on creation when disabled', () => {
+    Component.validation = false;
+    const component = new BodyComponent({ mass: 'heavy' as unknown as number });
+
+    expect(component.validate()).toEqual(['Field "mass" is not a valid number']);
+  });
+
+  it('clone and compare their data deeply', () => {
+    const component = new BodyComponent({ name: 'ball' });
+    const copy = component.clone();
+
+    expect(copy).toBeInstanceOf(BodyComponent);
+    expect(copy.equals(component)).toBe(true);
+
+    copy.data.tags.push('copy');
+    expect(component.data.tags).toEqual(['body']);
+    expect(copy.equals(component)).toBe(false);
+  });
+});
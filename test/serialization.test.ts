@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, Entity, System, World } from '../src';
+import type { WorldSnapshot } from '../src';
+
+type Position = { x: number; y: number };
+
+const PositionComponent = Component.register<Position>('Position');
+const NameComponent = Component.register<string>('Name');
+const UnnamedComponent = Component.register<number>();
+
+class SavedEntity extends Entity {}
+
+/**
+ * System recording the entities entering it
+ */
+class EnterSystem extends System {
+  public entered: Entity[] = [];
+
+  constructor() {
+    super([PositionComponent.type]);
+  }
+
+  enter(entity: Entity): void {
+    this.entered.push(entity);
+  }
+}
+
+function createWorld(): World {
+  const world = new World('saved', [], () => 0);
+  world.setState('playing');
+
+  const player = new SavedEntity();
+  player.add(new PositionComponent({ x: 1, y: 2 }));
+  player.add(new NameComponent('player'));
+  world.addEntity(player);
+  world.update(16);
+
+  const disabled = new SavedEntity();
+  const position = new PositionComponent({ x: 3, y: 4 });
+  position.attributes.sleeping = true;
+  disabled.add(position);
+  disabled.active = false;
+  world.addEntity(disabled);
+
+  return world;
+}
+
+/**
+ * Serialize a world, then remove its entities so that their ids can be restored in another world
+ */
+function save(world: World): WorldSnapshot {
+  const snapshot = world.serialize();
+  snapshot.entities.forEach(({ id }) => world.removeEntity(id));
+  return snapshot;
+}
+
+describe('snapshots', () => {
+  it('survive a JSON round-trip', () => {
+    const snapshot: WorldSnapshot = JSON.parse(JSON.stringify(save(createWorld())));
+
+    const restored = new World('restored', [], () => 0);
+    restored.deserialize(snapshot);
+
+    expect(restored.serialize()).toEqual({ ...snapshot, id: 'restored' });
+  });
+
+  it('restore entity ids, generations, state and game time', () => {
+    const snapshot = save(createWorld());
+
+    const restored = new World('restored', [], () => 0);
+    restored.deserialize(snapshot);
+
+    expect(snapshot.entities.map(({ active }) => active)).toEqual([true, false]);
+    snapshot.entities.forEach(({ id, generation, active }) => {
+      expect(restored.getEntity(id)).toMatchObject({ generation, active });
+    });
+    expect(snapshot.state).toBe('playing');
+    expect(restored.serialize().state).toBe('playing');
+    expect(restored.serialize().time).toBe(snapshot.time);
+  });
+
+  it('copy component data instead of sharing it', () => {
+    const snapshot = save(createWorld());
+
+    const restored = new World('restored', [], () => 0);
+    restored.deserialize(snapshot);
+    restored.queryEntitiesByComponent(PositionComponent.type)[0].components[PositionComponent.type][0].data.x = 10;
+
+    expect(snapshot.entities[0].components[0].data).toEqual({ x: 1, y: 2 });
+  });
+
+  it('replace existing entities and notify systems', () => {
+    const snapshot = save(createWorld());
+
+    const restored = new World('restored', [], () => 0);
+    const system = new EnterSystem();
+    restored.addSystem(system);
+    const previous = new SavedEntity();
+    previous.add(new PositionComponent({ x: 0, y: 0 }));
+    restored.addEntity(previous);
+
+    restored.deserialize(snapshot);
+
+    expect(restored.getEntity(previous.id)).not.toBe(previous);
+    expect(system.entered.slice(1).map(({ id }) => id)).toEqual(snapshot.entities.map(({ id }) => id));
+  });
+
+  it('require component classes to be registered with a name', () => {
+    const world = new World('unnamed', [], () => 0);
+    const entity = new SavedEntity();
+    entity.add(new UnnamedComponent(0));
+    world.addEntity(entity);
+
+    expect(() => world.serialize()).toThrow('is not registered');
+    expect(() =>
+      world.deserialize({
+        id: 'unknown',
+        state: '',
+        time: 0,
+        entities: [{ id: entity.id, active: true, components: [{ name: 'Unknown', data: 0, attributes: {} }] }]
+      })
+    ).toThrow('"Unknown" is not registered');
+    expect(world.getEntity(entity.id)).toBe(entity);
+  });
+});
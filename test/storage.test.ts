@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+
+import { Component, World } from '../src';
+
+type Particle = { life: number; velocity: number[] };
+
+const schema = { life: { type: 'number' }, velocity: { type: 'vector2' } } as const;
+
+const ParticleComponent = Component.register<Particle>('Particle', { storage: 'soa', capacity: 4, schema });
+const PooledParticleComponent = Component.register<Particle>('PooledParticle', {
+  storage: 'soa',
+  capacity: 4,
+  pool: 2,
+  schema
+});
+
+describe('soa storage', () => {
+  it('stores data in typed array columns', () => {
+    const component = new ParticleComponent({ life: 2, velocity: [1, -1] });
+
+    component.data.life = 3;
+
+    expect(ParticleComponent.storage!.columns.life).toContain(3);
+    expect(component.getData()).toEqual({ life: 3, velocity: [1, -1] });
+    component.dispose();
+  });
+
+  it('grows its columns, keeping stored data', () => {
+    const components = Array.from({ length: 10 }, (_, life) => new ParticleComponent({ life }));
+
+    expect(components.map((component) => component.getData().life)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    components.forEach((component) => component.dispose());
+  });
+
+  it('reuses the rows of the components of removed entities', () => {
+    const world = new World('soa', [], () => 0);
+    const storage = ParticleComponent.storage!;
+    const size = storage.size;
+
+    for (let i = 0; i < 1000; i++) {
+      const entity = world.acquireEntity();
+      entity.add(new ParticleComponent({ life: i }));
+      world.addEntity(entity);
+      world.removeEntity(entity);
+    }
+
+    expect(storage.size).toBe(size);
+  });
+
+  it('frees the rows of components removed from entities, storing them again when added back', () => {
+    const world = new World('removed', [], () => 0);
+    const storage = ParticleComponent.storage!;
+    const entity = world.acquireEntity();
+    world.addEntity(entity);
+    const size = storage.size;
+
+    for (let i = 0; i < 1000; i++) {
+      const component = new ParticleComponent({ life: i });
+      entity.add(component);
+      entity.remove(component);
+    }
+    expect(storage.size).toBe(size);
+
+    const component = new ParticleComponent({ life: 1, velocity: [2, 3] });
+    entity.add(component);
+    entity.remove(component);
+    expect(storage.size).toBe(size);
+    expect(component.getData()).toEqual({ life: 1, velocity: [2, 3] });
+
+    entity.add(component);
+    component.data.life = 2;
+    expect(storage.size).toBe(size + 1);
+    expect(component.getData()).toEqual({ life: 2, velocity: [2, 3] });
+    world.removeEntity(entity);
+  });
+
+  it('does not store the data of clones until they are added to an entity', () => {
+    const world = new World('clones', [], () => 0);
+    const storage = ParticleComponent.storage!;
+    const component = new ParticleComponent({ life: 1, velocity: [2, 3] });
+    const size = storage.size;
+
+    const copy = component.clone();
+    expect(storage.size).toBe(size);
+    expect(copy.getData()).toEqual({ life: 1, velocity: [2, 3] });
+
+    const entity = world.acquireEntity();
+    entity.add(copy);
+    world.addEntity(entity);
+    expect(storage.size).toBe(size + 1);
+
+    world.removeEntity(entity);
+    component.dispose();
+    expect(storage.size).toBe(size - 1);
+  });
+
+  it('reuses the rows of pooled components, and of components discarded by a full pool', () => {
+    const world = new World('pooled', [], () => 0);
+    const storage = PooledParticleComponent.storage!;
+
+    const entities = Array.from({ length: 5 }, () => {
+      const entity = world.acquireEntity();
+      entity.add(PooledParticleComponent.acquire({ life: 1, velocity: [0, 0] }));
+      world.addEntity(entity);
+      return entity;
+    });
+    expect(storage.size).toBe(5);
+
+    entities.forEach((entity) => world.removeEntity(entity));
+    expect(PooledParticleComponent.pool!.size).toBe(2);
+    expect(storage.size).toBe(2);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+
+import { ChildOf, Component, Entity, System, Universe, World } from '../src';
+
+class UniverseEntity extends Entity {}
+
+describe('universes', () => {
+  it('allocate entity ids, system ids and component types independently', () => {
+    const [a, b] = [new Universe(), new Universe()];
+
+    const [entitiesA, entitiesB] = [a, b].map((universe) =>
+      universe.run(() => [new UniverseEntity(), new UniverseEntity()])
+    );
+    const [systemA, systemB] = [a, b].map((universe) => universe.run(() => new (class extends System {})([-1])));
+    const [PositionA, PositionB] = [a, b].map((universe) => universe.run(() => Component.register<number>('Position')));
+
+    expect(entitiesA.map(({ id }) => id)).toEqual(entitiesB.map(({ id }) => id));
+    expect(systemA.id).toBe(systemB.id);
+    expect(PositionA.type).toBe(PositionB.type);
+    expect(a.registry.get('Position')).toBe(PositionA);
+    expect(b.registry.get('Position')).toBe(PositionB);
+  });
+
+  it('register shared component classes in every universe', () => {
+    expect(new Universe().registry.get('ChildOf')).toBe(ChildOf);
+  });
+
+  it('do not allocate user component types to shared component classes', () => {
+    const universe = new Universe();
+    const FirstComponent = universe.run(() => Component.register<number>('First'));
+
+    expect(ChildOf.type).toBe(0);
+    expect(FirstComponent.type).toBe(1);
+    expect(() => universe.run(() => Component.register<number>('Reserved', { type: 0 }))).toThrow(
+      'Component type 0 is already registered'
+    );
+  });
+
+  it('keep entities and systems in their own universe', () => {
+    const universe = new Universe();
+    const world = universe.run(() => new World('isolated', [], () => 0));
+
+    expect(() => world.addEntity(new UniverseEntity())).toThrow('belongs to another universe');
+    expect(() => world.addSystem(new (class extends System {})([-1]))).toThrow('belongs to another universe');
+  });
+
+  it('keep component classes in their own universe', () => {
+    const universe = new Universe();
+    const world = universe.run(() => new World('components', [], () => 0));
+    const SharedComponent = Component.register<number>('Shared', { type: 200 });
+    const LocalComponent = universe.run(() => Component.register<number>('Shared', { type: 200 }));
+    const entity = world.acquireEntity();
+    world.addEntity(entity);
+
+    expect(() => entity.add(new SharedComponent(1))).toThrow('belongs to another universe');
+    expect(entity.components).toEqual({});
+
+    entity.add(new LocalComponent(1));
+    expect(world.queryEntitiesByComponent(LocalComponent.type)).toEqual([entity]);
+  });
+
+  it('restore entities of snapshots in their own universe', () => {
+    const universe = new Universe();
+    const world = universe.run(() => new World('restored', [], () => 0));
+
+    world.deserialize({ id: 'saved', state: '', time: 0, entities: [{ id: 1, active: true, components: [] }] });
+
+    expect(world.getEntity(1)!.universe).toBe(universe);
+  });
+
+  it('do not restore entity ids allocated to the entities of another world', () => {
+    const universe = new Universe();
+    const [a, b] = universe.run(() => [new World('a', [], () => 0), new World('b', [], () => 0)]);
+    const entity = a.acquireEntity();
+    a.addEntity(entity);
+    const snapshot = a.serialize();
+
+    expect(() => b.deserialize(snapshot)).toThrow(`Entity id ${entity.id} is already allocated to another entity`);
+
+    a.removeEntity(entity);
+    b.deserialize(snapshot);
+    b.removeEntity(entity.id);
+
+    expect(a.acquireEntity().id).toBe(entity.id);
+    expect(() => universe.run(() => new UniverseEntity(entity.id))).toThrow('is already allocated');
+  });
+
+  it('save and restore their entity id allocator', () => {
+    const universe = new Universe();
+    const world = universe.run(() => new World('allocator', [], () => 0));
+    const entity = world.acquireEntity();
+    world.addEntity(entity);
+    world.removeEntity(entity);
+    const state = universe.saveAllocator();
+
+    const ids = [world.acquireEntity(), world.acquireEntity()].map(({ id, generation }) => [id, generation]);
+    universe.restoreAllocator(state);
+
+    expect([world.acquireEntity(), world.acquireEntity()].map(({ id, generation }) => [id, generation])).toEqual(ids);
+  });
+});